@@ -1,28 +1,161 @@
+import { ApiError } from "@/api/apiError";
+import { CacheResource, RevalidateSeconds, cacheTags } from "@/api/cache";
+import {
+  apiResponseSchema,
+  listOf,
+  newsSchema,
+  pagedResponseSchema,
+  parseResponse,
+  productCategorySchema,
+  productSchema,
+  projectSchema,
+} from "@/api/schemas";
+import { publicConfig } from "@/lib/publicConfig";
 import { SortByOption } from "@/lib/enum/sortByOption";
 import { ApiResponse, PagedResponse } from "@/types/apiResponse";
+import { Enquiry, EnquirySubmission } from "@/types/enquiry";
 import { News } from "@/types/news";
 import { ProductCategory, Products } from "@/types/products";
 import { Projects } from "@/types/projects";
+import { SearchResults } from "@/types/search";
+import { cache } from "react";
+import { z } from "zod";
 
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:5000/api/v1";
+const API_BASE_URL = publicConfig.api.baseUrl;
 
-/** Generic fetcher */
+export type FetchOptions = RequestInit & {
+  /** Abort the request after this many milliseconds */
+  timeoutMs?: number;
+  /** Extra attempts for idempotent requests that fail with a retryable error */
+  retries?: number;
+};
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 300;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const isIdempotent = (method?: string) =>
+  ["GET", "HEAD"].includes((method || "GET").toUpperCase());
+
+/** Single request attempt, aborted once the timeout elapses */
+async function fetchOnce<TResponse>(
+  url: string,
+  init: RequestInit,
+  timeoutMs: number,
+): Promise<TResponse> {
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  const timer = setTimeout(abort, timeoutMs);
+  // A signal that's already aborted never fires "abort" again
+  if (init.signal?.aborted) abort();
+  init.signal?.addEventListener("abort", abort);
+
+  try {
+    let res: Response;
+    try {
+      res = await fetch(url, { ...init, signal: controller.signal });
+    } catch (error) {
+      const timedOut = controller.signal.aborted && !init.signal?.aborted;
+      throw new ApiError({
+        status: 0,
+        endpoint: url,
+        message: timedOut
+          ? `Request to ${url} timed out after ${timeoutMs}ms`
+          : `Unable to reach ${url}`,
+        cause: error,
+      });
+    }
+    if (!res.ok) {
+      throw await ApiError.fromResponse(res, url);
+    }
+
+    return await res.json();
+  } finally {
+    clearTimeout(timer);
+    init.signal?.removeEventListener("abort", abort);
+  }
+}
+
+/**
+ * Generic fetcher with timeout, and retry with exponential backoff for GETs.
+ * The body is validated against `schema` once, after the last attempt.
+ */
 async function fetcher<TResponse>(
   url: string,
-  options?: RequestInit,
+  options?: FetchOptions,
+  schema?: z.ZodType,
 ): Promise<TResponse> {
-  const res = await fetch(url, {
-    ...options,
+  const {
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    retries = DEFAULT_RETRIES,
+    ...init
+  } = options || {};
+  const requestInit: RequestInit = {
+    ...init,
     headers: {
       "Content-Type": "application/json",
-      ...(options?.headers || {}),
+      ...(init.headers || {}),
     },
-  });
-  if (!res.ok) {
-    throw new Error(`Fetch error: ${res.status} ${res.statusText}`);
+  };
+  const maxAttempts = isIdempotent(init.method) ? retries + 1 : 1;
+
+  let json: unknown;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      json = await fetchOnce<unknown>(url, requestInit, timeoutMs);
+      break;
+    } catch (error) {
+      const retryable =
+        error instanceof ApiError &&
+        error.kind === "unavailable" &&
+        !init.signal?.aborted;
+      if (!retryable || attempt >= maxAttempts) throw error;
+
+      const delay =
+        RETRY_BASE_DELAY_MS * 2 ** (attempt - 1) +
+        Math.random() * RETRY_BASE_DELAY_MS;
+      console.warn(
+        `${error.message}, retrying in ${Math.round(delay)}ms (attempt ${attempt + 1}/${maxAttempts})`,
+      );
+      await sleep(delay);
+    }
   }
 
-  return res.json();
+  return schema
+    ? parseResponse<TResponse>(schema, json, url)
+    : (json as TResponse);
+}
+
+/** Tag the request for on-demand revalidation, unless the caller opted out of caching */
+function withCache(
+  options: FetchOptions | undefined,
+  resource: CacheResource,
+  id?: number,
+): FetchOptions {
+  if (options?.cache === "no-store") return options;
+
+  return {
+    ...options,
+    next: {
+      revalidate: RevalidateSeconds[resource],
+      ...options?.next,
+      tags: [...cacheTags(resource, id), ...(options?.next?.tags || [])],
+    },
+  };
+}
+
+/**
+ * Memoise a by-id loader per request. `cache` compares arguments by reference,
+ * so the id alone is the key and calls that pass options skip the memo.
+ */
+function cachedById<TResponse>(
+  load: (id: number, options?: FetchOptions) => Promise<TResponse>,
+) {
+  const loadCached = cache((id: number) => load(id));
+  return (id: number, options?: FetchOptions) =>
+    options ? load(id, options) : loadCached(id);
 }
 
 /** Build query string from object */
@@ -37,9 +170,13 @@ function toQueryString(params: Record<string, any>): string {
 }
 
 /** Get Product Category */
-export async function getProductCategory(options?: RequestInit) {
+export async function getProductCategory(options?: FetchOptions) {
   const url = `${API_BASE_URL}/productCategory`;
-  return fetcher<ApiResponse<ProductCategory[]>>(url, options);
+  return fetcher<ApiResponse<ProductCategory[]>>(
+    url,
+    withCache(options, "productCategory"),
+    apiResponseSchema(listOf(productCategorySchema)),
+  );
 }
 
 /** Get Product List */
@@ -53,18 +190,26 @@ export async function getProducts(
     isActive?: boolean;
     sortBy?: SortByOption;
   },
-  options?: RequestInit,
+  options?: FetchOptions,
 ) {
   const query = toQueryString(params);
   const url = `${API_BASE_URL}/product${query ? `?${query}` : ""}`;
-  return fetcher<PagedResponse<Products[]>>(url, options);
+  return fetcher<PagedResponse<Products[]>>(
+    url,
+    withCache(options, "product"),
+    pagedResponseSchema(productSchema),
+  );
 }
 
-/** Get Product by ID */
-export async function getProductById(id: number, options?: RequestInit) {
+/** Get Product by ID, memoised per request so the metadata and page share one fetch */
+export const getProductById = cachedById((id, options) => {
   const url = `${API_BASE_URL}/product/${id}`;
-  return fetcher<ApiResponse<Products>>(url, options);
-}
+  return fetcher<ApiResponse<Products>>(
+    url,
+    withCache(options, "product", id),
+    apiResponseSchema(productSchema),
+  );
+});
 
 /** Get Project List */
 export async function getProjects(
@@ -75,18 +220,26 @@ export async function getProjects(
     isActive?: boolean;
     isAdmin?: boolean;
   },
-  options?: RequestInit,
+  options?: FetchOptions,
 ) {
   const query = toQueryString(params);
   const url = `${API_BASE_URL}/project${query ? `?${query}` : ""}`;
-  return fetcher<PagedResponse<Projects[]>>(url, { method: "GET", ...options });
+  return fetcher<PagedResponse<Projects[]>>(
+    url,
+    withCache({ method: "GET", ...options }, "project"),
+    pagedResponseSchema(projectSchema),
+  );
 }
 
-/** Get Project by ID */
-export async function getProjectById(id: number, options?: RequestInit) {
+/** Get Project by ID, memoised per request so the metadata and page share one fetch */
+export const getProjectById = cachedById((id, options) => {
   const url = `${API_BASE_URL}/project/${id}`;
-  return fetcher<ApiResponse<Projects>>(url, options);
-}
+  return fetcher<ApiResponse<Projects>>(
+    url,
+    withCache(options, "project", id),
+    apiResponseSchema(projectSchema),
+  );
+});
 
 /** Get News List */
 export async function getNews(
@@ -97,35 +250,74 @@ export async function getNews(
     year?: number;
     isActive?: boolean;
   },
-  options?: RequestInit,
+  options?: FetchOptions,
 ) {
   const query = toQueryString(params);
   const url = `${API_BASE_URL}/news${query ? `?${query}` : ""}`;
-  return fetcher<PagedResponse<News[]>>(url, options);
+  return fetcher<PagedResponse<News[]>>(
+    url,
+    withCache(options, "news"),
+    pagedResponseSchema(newsSchema),
+  );
 }
 
-/** Get News by ID */
-export async function getNewsById(id: number, options?: RequestInit) {
+/** Get News by ID, memoised per request so the metadata and page share one fetch */
+export const getNewsById = cachedById((id, options) => {
   const url = `${API_BASE_URL}/news/${id}`;
-  return fetcher<ApiResponse<News>>(url, options);
-}
+  return fetcher<ApiResponse<News>>(
+    url,
+    withCache(options, "news", id),
+    apiResponseSchema(newsSchema),
+  );
+});
 
 /** Add Enquiry */
-export async function addEnquiry(
-  body: {
-    name: string;
-    companyName: string;
-    email: string;
-    phone: string;
-    type: number;
-    message: string;
-  },
-  options?: RequestInit,
-) {
+export async function addEnquiry(body: Enquiry, options?: FetchOptions) {
   const url = `${API_BASE_URL}/enquiry`;
-  return fetcher<ApiResponse<string>>(url, {
-    method: "POST",
-    body: JSON.stringify(body),
-    ...options,
-  });
+  return fetcher<ApiResponse<string>>(
+    url,
+    {
+      method: "POST",
+      body: JSON.stringify(body),
+      ...options,
+      // Never replay a submission, the first attempt may have been stored
+      retries: 0,
+    },
+    apiResponseSchema(z.unknown()),
+  );
+}
+
+/** Post an enquiry through the site's own spam-checked proxy, used by the browser */
+export async function submitEnquiry(
+  body: EnquirySubmission,
+  options?: FetchOptions,
+) {
+  return fetcher<ApiResponse<string | null>>(
+    "/api/enquiry",
+    {
+      method: "POST",
+      body: JSON.stringify(body),
+      ...options,
+      retries: 0,
+    },
+    apiResponseSchema(z.unknown()),
+  );
+}
+
+/** Token a form sends back with its enquiry, so the route can tell how long it was open */
+export async function getEnquiryFormToken(options?: FetchOptions) {
+  return fetcher<ApiResponse<string>>(
+    "/api/enquiry",
+    { cache: "no-store", retries: 1, ...options },
+    apiResponseSchema(z.string()),
+  );
+}
+
+/** Grouped site search through the site's own route, used by the header palette */
+export async function getSearchResults(query: string, options?: FetchOptions) {
+  return fetcher<ApiResponse<SearchResults>>(
+    `/api/search?q=${encodeURIComponent(query)}`,
+    { retries: 0, ...options },
+    apiResponseSchema(z.unknown()),
+  );
 }
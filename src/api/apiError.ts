@@ -0,0 +1,83 @@
+import { ApiResponse } from "@/types/apiResponse";
+
+export type ApiErrorKind =
+  | "notFound"
+  | "validation"
+  | "unavailable"
+  | "unknown";
+
+/** Error thrown by the fetcher for any failed API call */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly endpoint: string;
+  readonly errors: string[];
+
+  constructor(params: {
+    status: number;
+    endpoint: string;
+    message?: string | null;
+    errors?: string[] | null;
+    cause?: unknown;
+  }) {
+    super(
+      params.message ||
+        `Request to ${params.endpoint} failed (${params.status})`,
+      { cause: params.cause },
+    );
+    this.name = "ApiError";
+    this.status = params.status;
+    this.endpoint = params.endpoint;
+    this.errors = params.errors ?? [];
+  }
+
+  /** Status 0 means the request never got an HTTP response (network error, timeout) */
+  get kind(): ApiErrorKind {
+    if (this.status === 404) return "notFound";
+    if (this.status === 400 || this.status === 422) return "validation";
+    if (
+      this.status === 0 ||
+      this.status === 408 ||
+      this.status === 429 ||
+      this.status >= 500
+    ) {
+      return "unavailable";
+    }
+    return "unknown";
+  }
+
+  /** Build an ApiError from a non-ok response, reading the ApiResponse body if present */
+  static async fromResponse(
+    res: Response,
+    endpoint: string,
+  ): Promise<ApiError> {
+    let body: Partial<ApiResponse> | null = null;
+    try {
+      body = await res.json();
+    } catch {
+      // Body is empty or not JSON, fall back to the status text
+    }
+
+    return new ApiError({
+      status: res.status,
+      endpoint,
+      message: body?.message || `${res.status} ${res.statusText}`.trim(),
+      errors: body?.errors,
+    });
+  }
+}
+
+export function isApiError(error: unknown): error is ApiError {
+  return error instanceof ApiError;
+}
+
+/** Normalise anything thrown by an API call into an ApiError */
+export function toApiError(error: unknown, endpoint = "unknown"): ApiError {
+  if (isApiError(error)) return error;
+
+  return new ApiError({
+    status: 0,
+    endpoint,
+    message: error instanceof Error ? error.message : String(error),
+    cause: error,
+  });
+}
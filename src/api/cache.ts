@@ -0,0 +1,26 @@
+/** Cache tag per backend resource, shared by the fetchers and the revalidate webhook */
+export const CacheTag = {
+  product: "product",
+  productCategory: "productCategory",
+  news: "news",
+  project: "project",
+} as const;
+
+export type CacheResource = keyof typeof CacheTag;
+
+/** Fallback revalidation window in seconds, the webhook refreshes sooner on edits */
+export const RevalidateSeconds: Record<CacheResource, number> = {
+  product: 3600,
+  productCategory: 86400,
+  news: 600,
+  project: 3600,
+};
+
+export const isCacheResource = (value: unknown): value is CacheResource =>
+  typeof value === "string" && value in CacheTag;
+
+/** Tags for a resource, plus the per-item tag when an id is given */
+export function cacheTags(resource: CacheResource, id?: number | string) {
+  const tag = CacheTag[resource];
+  return id === undefined ? [tag] : [tag, `${tag}:${id}`];
+}
@@ -0,0 +1,70 @@
+import { toApiError } from "@/api/apiError";
+import { ApiResponse, PagedResponse } from "@/types/apiResponse";
+
+export type FallbackResult<T> = {
+  data: T;
+  /** True when the request failed and `data` is a cached or empty stand-in */
+  degraded: boolean;
+};
+
+/** Keys include request params such as search text, so the cache has to stay bounded */
+const MAX_LAST_KNOWN_GOOD = 200;
+
+/**
+ * Last successful response per key, for the lifetime of the server process.
+ * Map order doubles as recency, the least recently refreshed key goes first.
+ */
+const lastKnownGood = new Map<string, unknown>();
+
+const remember = (key: string, data: unknown) => {
+  lastKnownGood.delete(key);
+  lastKnownGood.set(key, data);
+  if (lastKnownGood.size > MAX_LAST_KNOWN_GOOD) {
+    lastKnownGood.delete(lastKnownGood.keys().next().value!);
+  }
+};
+
+/**
+ * Run an API request, falling back to the last successful response for the
+ * same key (or the given empty value) instead of throwing. Pass
+ * `lastKnownGood: false` where the empty value is good enough, e.g. search.
+ */
+export async function withFallback<T>(
+  key: string,
+  request: () => Promise<T>,
+  fallback: T,
+  { lastKnownGood: keep = true }: { lastKnownGood?: boolean } = {},
+): Promise<FallbackResult<T>> {
+  try {
+    const data = await request();
+    if (keep) remember(key, data);
+    return { data, degraded: false };
+  } catch (error) {
+    const apiError = toApiError(error);
+    const cached = keep ? (lastKnownGood.get(key) as T | undefined) : undefined;
+    console.error(
+      `[${key}] ${apiError.message}, serving ${cached ? "cached" : "empty"} data`,
+    );
+    return { data: cached ?? fallback, degraded: true };
+  }
+}
+
+export function emptyApiResponse<T>(data: T): ApiResponse<T> {
+  return { succeeded: false, message: null, errors: null, data };
+}
+
+export function emptyPagedResponse<T>(
+  data: T,
+  pageNumber = 1,
+  pageSize = 10,
+): PagedResponse<T> {
+  return {
+    succeeded: false,
+    message: null,
+    errors: null,
+    totalCount: 0,
+    pageNumber,
+    pageSize,
+    data,
+  };
+}
@@ -0,0 +1,489 @@
+import { News } from "@/types/news";
+import { DocumentTypeEnum } from "@/lib/enum/documentType";
+import { SpecificationGroupEnum } from "@/lib/enum/specificationGroup";
+import {
+  ProductCategory,
+  ProductDocument,
+  ProductSpecification,
+  Products,
+} from "@/types/products";
+import { Projects } from "@/types/projects";
+
+export const productCategories: ProductCategory[] = [
+  { id: 1, name: "PIR Panels", imageUrl: "/images/products/pir-panel.jpg" },
+  { id: 2, name: "PU Panels", imageUrl: "/images/products/pu-panel.jpg" },
+  { id: 3, name: "PS Panels", imageUrl: "/images/products/ps-panel.jpg" },
+  { id: 4, name: "Cold Room Doors", imageUrl: "/images/products/door.png" },
+  {
+    id: 5,
+    name: "Refrigeration Equipment",
+    imageUrl: "/images/products/refrigeration.png",
+  },
+];
+
+const { Construction, Thermal, Fire, Operating } = SpecificationGroupEnum;
+
+const panelSpecs = (
+  core: "PIR" | "PU" | "PS",
+  thickness: number,
+  uValue: number,
+  fireRating: string,
+  temperatureRange: string,
+): ProductSpecification[] => [
+  {
+    key: "coreMaterial",
+    label: "Core Material",
+    group: Construction,
+    value: core,
+  },
+  {
+    key: "thickness",
+    label: "Thickness",
+    group: Construction,
+    value: thickness,
+    unit: "mm",
+  },
+  {
+    key: "facingMaterial",
+    label: "Facing Material",
+    group: Construction,
+    value: "0.5 mm PPGI",
+  },
+  {
+    key: "uValue",
+    label: "U-Value",
+    group: Thermal,
+    value: uValue,
+    unit: "W/m²K",
+  },
+  { key: "fireRating", label: "Fire Rating", group: Fire, value: fireRating },
+  {
+    key: "temperatureRange",
+    label: "Temperature Range",
+    group: Operating,
+    value: temperatureRange,
+    unit: "°C",
+  },
+];
+
+const { Datasheet, Brochure, InstallationGuide, TestCertificate } =
+  DocumentTypeEnum;
+
+const panelBrochure = (core: "PIR" | "PU" | "PS"): ProductDocument => ({
+  title: `${core} Insulated Panel Brochure`,
+  type: Brochure,
+  language: "en",
+  fileSize: 4_718_592,
+  url: `/documents/${core.toLowerCase()}-panel-brochure.pdf`,
+});
+
+const panelInstallationGuide: ProductDocument[] = [
+  {
+    title: "Panel Installation Guide",
+    type: InstallationGuide,
+    language: "en",
+    fileSize: 2_306_867,
+    url: "/documents/panel-installation-guide.pdf",
+  },
+  {
+    title: "Panduan Pemasangan Panel",
+    type: InstallationGuide,
+    language: "ms",
+    fileSize: 2_411_724,
+    url: "/documents/panel-installation-guide-ms.pdf",
+  },
+];
+
+const datasheet = (name: string, fileSize: number): ProductDocument => ({
+  title: `${name} Datasheet`,
+  type: Datasheet,
+  language: "en",
+  fileSize,
+  url: `/documents/${name.toLowerCase().replace(/\s+/g, "-")}-datasheet.pdf`,
+});
+
+const fmCertificate: ProductDocument = {
+  title: "FM 4880 Approval Certificate",
+  type: TestCertificate,
+  language: "en",
+  fileSize: 845_824,
+  url: "/documents/fm-4880-certificate.pdf",
+};
+
+export const products: Products[] = [
+  {
+    id: 1,
+    name: "PIR Insulated Wall Panel 100mm",
+    description:
+      "<p>Polyisocyanurate (PIR) core sandwich panel produced on our double belt continuous line. Suitable for chiller rooms and food processing areas.</p><ul><li>Thickness: 100 mm</li><li>Facing: 0.5 mm pre-painted galvanised steel</li><li>Density: 40 ± 2 kg/m³</li></ul>",
+    productCategoryId: 1,
+    manufacturer: "United Panel-System",
+    imageUrls: ["/images/products/pir-panel.jpg"],
+    specifications: panelSpecs(
+      "PIR",
+      100,
+      0.22,
+      "FM 4880 Approved",
+      "-25 to +10",
+    ),
+    documents: [
+      datasheet("PIR Wall Panel 100mm", 389_120),
+      panelBrochure("PIR"),
+      fmCertificate,
+      ...panelInstallationGuide,
+    ],
+    isActive: true,
+  },
+  {
+    id: 2,
+    name: "PIR Insulated Wall Panel 150mm",
+    description:
+      "<p>High performance PIR panel for freezer rooms down to -30°C with FM approved fire performance.</p><ul><li>Thickness: 150 mm</li><li>Facing: 0.5 mm PPGI / stainless steel</li></ul>",
+    productCategoryId: 1,
+    manufacturer: "United Panel-System",
+    imageUrls: ["/images/products/pir-panel.jpg"],
+    specifications: panelSpecs(
+      "PIR",
+      150,
+      0.15,
+      "FM 4880 Approved",
+      "-30 to +10",
+    ),
+    documents: [
+      datasheet("PIR Wall Panel 150mm", 393_216),
+      panelBrochure("PIR"),
+      fmCertificate,
+      ...panelInstallationGuide,
+    ],
+    isActive: true,
+  },
+  {
+    id: 3,
+    name: "PIR Ceiling Panel 200mm",
+    description:
+      "<p>Long span PIR ceiling panel for blast freezers and large cold stores.</p>",
+    productCategoryId: 1,
+    manufacturer: "United Panel-System",
+    imageUrls: ["/images/products/pir-panel.jpg"],
+    specifications: panelSpecs(
+      "PIR",
+      200,
+      0.11,
+      "FM 4880 Approved",
+      "-40 to +10",
+    ),
+    documents: [
+      datasheet("PIR Ceiling Panel 200mm", 401_408),
+      panelBrochure("PIR"),
+      fmCertificate,
+      ...panelInstallationGuide,
+    ],
+    isActive: true,
+  },
+  {
+    id: 4,
+    name: "PU Cold Room Panel 75mm",
+    description:
+      "<p>Injected polyurethane (PU) panel with cam-lock joints for walk-in chillers.</p>",
+    productCategoryId: 2,
+    manufacturer: "United Panel-System",
+    imageUrls: ["/images/products/pu-panel.jpg"],
+    specifications: panelSpecs("PU", 75, 0.3, "B2", "-5 to +10"),
+    documents: [panelBrochure("PU"), ...panelInstallationGuide],
+    isActive: true,
+  },
+  {
+    id: 5,
+    name: "PU Cold Room Panel 100mm",
+    description:
+      "<p>Injected PU panel for walk-in freezers, supplied with aluminium trims and sealant.</p>",
+    productCategoryId: 2,
+    manufacturer: "United Panel-System",
+    imageUrls: ["/images/products/pu-panel.jpg"],
+    specifications: panelSpecs("PU", 100, 0.23, "B2", "-25 to +10"),
+    documents: [panelBrochure("PU"), ...panelInstallationGuide],
+    isActive: true,
+  },
+  {
+    id: 6,
+    name: "PS Partition Panel 50mm",
+    description:
+      "<p>Expanded polystyrene (PS) panel for clean rooms, partitions and air-conditioned spaces.</p>",
+    productCategoryId: 3,
+    manufacturer: "United Panel-System",
+    imageUrls: ["/images/products/ps-panel.jpg"],
+    specifications: panelSpecs("PS", 50, 0.7, "Class 1", "+10 to +30"),
+    documents: [panelBrochure("PS"), ...panelInstallationGuide],
+    isActive: true,
+  },
+  {
+    id: 7,
+    name: "Hinged Cold Room Door",
+    description:
+      "<p>Flush-mounted hinged door with heater wire and safety release, available for chiller and freezer rooms.</p>",
+    productCategoryId: 4,
+    manufacturer: "United Panel-System",
+    imageUrls: ["/images/products/door.png"],
+    specifications: [
+      {
+        key: "doorType",
+        label: "Door Type",
+        group: Construction,
+        value: "Hinged",
+      },
+      {
+        key: "clearOpening",
+        label: "Clear Opening",
+        group: Construction,
+        value: "900 x 1900",
+        unit: "mm",
+      },
+      {
+        key: "temperatureRange",
+        label: "Temperature Range",
+        group: Operating,
+        value: "-30 to +10",
+        unit: "°C",
+      },
+    ],
+    documents: [
+      {
+        title: "Hinged Door Installation Guide",
+        type: InstallationGuide,
+        language: "en",
+        fileSize: 1_572_864,
+        url: "/documents/hinged-door-installation-guide.pdf",
+      },
+    ],
+    isActive: true,
+  },
+  {
+    id: 8,
+    name: "Sliding Cold Room Door",
+    description:
+      "<p>Manual or motorised sliding door for high traffic cold stores.</p>",
+    productCategoryId: 4,
+    manufacturer: "United Panel-System",
+    imageUrls: ["/images/products/door.png"],
+    specifications: [
+      {
+        key: "doorType",
+        label: "Door Type",
+        group: Construction,
+        value: "Sliding",
+      },
+      {
+        key: "clearOpening",
+        label: "Clear Opening",
+        group: Construction,
+        value: "1500 x 2400",
+        unit: "mm",
+      },
+      {
+        key: "temperatureRange",
+        label: "Temperature Range",
+        group: Operating,
+        value: "-30 to +10",
+        unit: "°C",
+      },
+    ],
+    isActive: true,
+  },
+  {
+    id: 9,
+    name: "Semi-Hermetic Reciprocating Compressor",
+    description:
+      "<p>Semi-hermetic compressor for medium and low temperature applications.</p>",
+    productCategoryId: 5,
+    manufacturer: "Bitzer",
+    imageUrls: ["/images/products/refrigeration.png"],
+    specifications: [
+      {
+        key: "refrigerant",
+        label: "Refrigerant",
+        group: Operating,
+        value: "R404A / R448A",
+      },
+      {
+        key: "coolingCapacity",
+        label: "Cooling Capacity",
+        group: Thermal,
+        value: 12.5,
+        unit: "kW",
+      },
+      {
+        key: "powerSupply",
+        label: "Power Supply",
+        group: Operating,
+        value: "400V / 3Ph / 50Hz",
+      },
+    ],
+    documents: [datasheet("Bitzer Semi-Hermetic Compressor", 1_048_576)],
+    isActive: true,
+  },
+  {
+    id: 10,
+    name: "Condensing Unit OP-MPXM",
+    description:
+      "<p>Air-cooled condensing unit with variable speed fan for commercial cold rooms.</p>",
+    productCategoryId: 5,
+    manufacturer: "Danfoss",
+    imageUrls: ["/images/products/refrigeration.png"],
+    specifications: [
+      {
+        key: "refrigerant",
+        label: "Refrigerant",
+        group: Operating,
+        value: "R404A",
+      },
+      {
+        key: "coolingCapacity",
+        label: "Cooling Capacity",
+        group: Thermal,
+        value: 6.8,
+        unit: "kW",
+      },
+      {
+        key: "powerSupply",
+        label: "Power Supply",
+        group: Operating,
+        value: "230V / 1Ph / 50Hz",
+      },
+    ],
+    isActive: true,
+  },
+  {
+    id: 11,
+    name: "Thermostatic Expansion Valve TE 2",
+    description:
+      "<p>Thermostatic expansion valve with interchangeable orifice for HFC refrigerants.</p>",
+    productCategoryId: 5,
+    manufacturer: "Danfoss",
+    imageUrls: [],
+    isActive: true,
+  },
+  {
+    id: 12,
+    name: "Unit Cooler Evaporator",
+    description:
+      "<p>Ceiling-mounted evaporator with electric defrost for freezer rooms.</p>",
+    productCategoryId: 5,
+    manufacturer: "Toyo",
+    imageUrls: ["/images/products/refrigeration.png"],
+    isActive: false,
+  },
+];
+
+export const news: News[] = [
+  {
+    id: 1,
+    title: "ASEAN's First PIR Double Belt Continuous Line Commissioned",
+    description:
+      "<p>Our new continuous line in Johor doubles PIR panel capacity and shortens lead times for large cold store projects.</p>",
+    imageUrls: ["/images/banner/manufacturingPlant.png"],
+    date: "2025-06-13T00:00:00Z",
+    isActive: true,
+  },
+  {
+    id: 2,
+    title: "United Panel-System at Refrigeration & HVAC Expo 2025",
+    description:
+      "<p>Visit our booth to see the latest PIR panels and cold room door systems.</p>",
+    imageUrls: ["/images/news/news.jpg"],
+    date: "2025-04-02T00:00:00Z",
+    isActive: true,
+  },
+  {
+    id: 3,
+    title: "PIR Panels Receive FM Approval",
+    description:
+      "<p>Our PIR insulated panels have achieved FM Approved status for fire performance.</p>",
+    imageUrls: ["/images/about/certifications/fm-approved.png"],
+    date: "2024-11-20T00:00:00Z",
+    isActive: true,
+  },
+  {
+    id: 4,
+    title: "Completion of Central Kitchen Cold Rooms in Selangor",
+    description:
+      "<p>We delivered 14 chiller and freezer rooms for a central kitchen operator in Shah Alam.</p>",
+    imageUrls: ["/images/projects/IMG-20250520-WA0012.jpg"],
+    date: "2024-08-05T00:00:00Z",
+    isActive: true,
+  },
+  {
+    id: 5,
+    title: "ISO 9001 Recertification",
+    description:
+      "<p>Our quality management system has been recertified to ISO 9001:2015.</p>",
+    imageUrls: ["/images/about/certifications/iso-certified.jpg"],
+    date: "2023-12-11T00:00:00Z",
+    isActive: true,
+  },
+  {
+    id: 6,
+    title: "Draft announcement",
+    description: "<p>Not yet published.</p>",
+    imageUrls: [],
+    date: "2025-07-01T00:00:00Z",
+    isActive: false,
+  },
+];
+
+export const projects: Projects[] = [
+  {
+    id: 1,
+    name: "Seafood Processing Plant, Johor Bahru",
+    description:
+      "<p>Blast freezer and holding cold stores built with 150 mm PIR panels.</p>",
+    imageUrls: [
+      "/images/projects/IMG-20250520-WA0004.jpg",
+      "/images/projects/IMG-20250520-WA0005.jpg",
+    ],
+    latitude: 1.4927,
+    longitude: 103.7414,
+    isActive: true,
+    date: "2025-05-20T00:00:00Z",
+  },
+  {
+    id: 2,
+    name: "Central Kitchen, Shah Alam",
+    description: "<p>14 chiller and freezer rooms for a central kitchen.</p>",
+    imageUrls: ["/images/projects/IMG-20250520-WA0012.jpg"],
+    latitude: 3.0733,
+    longitude: 101.5185,
+    isActive: true,
+    date: "2024-08-05T00:00:00Z",
+  },
+  {
+    id: 3,
+    name: "Pharmaceutical Warehouse, Penang",
+    description:
+      "<p>Temperature controlled warehouse at 2–8°C with PU panels.</p>",
+    imageUrls: ["/images/projects/IMG-20250520-WA0008.jpg"],
+    latitude: 5.4164,
+    longitude: 100.3327,
+    isActive: true,
+    date: "2024-03-14T00:00:00Z",
+  },
+  {
+    id: 4,
+    name: "Poultry Abattoir, Kedah",
+    description: "<p>Chilling rooms and PS clean room partitions.</p>",
+    imageUrls: ["/images/projects/IMG-20250520-WA0015.jpg"],
+    latitude: 6.1184,
+    longitude: 100.3685,
+    isActive: true,
+    date: "2023-10-02T00:00:00Z",
+  },
+  {
+    id: 5,
+    name: "Supermarket Distribution Centre, Kuching",
+    description: "<p>Multi-temperature distribution centre.</p>",
+    imageUrls: [],
+    latitude: 1.5533,
+    longitude: 110.3592,
+    isActive: true,
+    date: "2023-05-22T00:00:00Z",
+  },
+];
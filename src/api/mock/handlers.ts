@@ -0,0 +1,170 @@
+import { toSlugWithId } from "@/lib/routes";
+import { SortByOption } from "@/lib/enum/sortByOption";
+import { ApiResponse, PagedResponse } from "@/types/apiResponse";
+import { news, productCategories, products, projects } from "./fixtures";
+
+export type MockResult = {
+  status: number;
+  body: ApiResponse | PagedResponse;
+};
+
+const ok = <T>(data: T): MockResult => ({
+  status: 200,
+  body: { succeeded: true, message: null, errors: null, data },
+});
+
+const fail = (
+  status: number,
+  message: string,
+  errors?: string[],
+): MockResult => ({
+  status,
+  body: { succeeded: false, message, errors: errors ?? null, data: null },
+});
+
+const paged = <T>(items: T[], query: URLSearchParams): MockResult => {
+  const pageNumber = Number(query.get("pageNumber")) || 1;
+  const pageSize = Number(query.get("pageSize")) || 10;
+  const start = (pageNumber - 1) * pageSize;
+
+  return {
+    status: 200,
+    body: {
+      succeeded: true,
+      message: null,
+      errors: null,
+      totalCount: items.length,
+      pageNumber,
+      pageSize,
+      data: items.slice(start, start + pageSize),
+    },
+  };
+};
+
+const contains = (value: string, query: string | null) =>
+  !query || value.toLowerCase().includes(query.toLowerCase());
+
+const matchesActive = (isActive: boolean, query: string | null) =>
+  query === null || String(isActive) === query;
+
+function findById<T extends { id?: number }>(
+  items: T[],
+  id: string,
+  label: string,
+): MockResult {
+  if (isNaN(Number(id))) {
+    return fail(400, "Validation failed", [`'${id}' is not a valid id`]);
+  }
+  const item = items.find((i) => i.id === Number(id));
+  return item ? ok(item) : fail(404, `${label} ${id} not found`);
+}
+
+function addEnquiry(body: Record<string, unknown> | null): MockResult {
+  const errors = ["name", "email", "message"]
+    .filter((field) => typeof body?.[field] !== "string" || !body[field])
+    .map((field) => `${field} is required`);
+  if (typeof body?.type !== "number") errors.push("type is required");
+  if (body?.items !== undefined && !Array.isArray(body.items)) {
+    errors.push("items must be a list");
+  }
+  if (
+    body?.details !== undefined &&
+    (typeof body.details !== "object" || Array.isArray(body.details))
+  ) {
+    errors.push("details must be an object");
+  }
+
+  return errors.length > 0
+    ? fail(400, "Validation failed", errors)
+    : ok("Enquiry submitted");
+}
+
+/** Route a request against the fixtures, mirroring the backend's endpoints */
+export function handleMockRequest(
+  method: string,
+  path: string[],
+  query: URLSearchParams,
+  body: Record<string, unknown> | null,
+): MockResult {
+  const [resource, id] = path;
+
+  if (method === "POST") {
+    return resource === "enquiry" && !id
+      ? addEnquiry(body)
+      : fail(405, `${method} /${path.join("/")} is not supported`);
+  }
+
+  switch (resource) {
+    case "productCategory":
+      return ok(productCategories);
+
+    case "product": {
+      if (id === "slugs") {
+        return ok(products.map((p) => ({ slug: toSlugWithId(p.name, p.id) })));
+      }
+      if (id) return findById(products, id, "Product");
+
+      const categoryId = query.get("productCategoryId");
+      const sortBy = Number(query.get("sortBy"));
+      const items = products
+        .filter(
+          (p) =>
+            contains(p.name, query.get("name")) &&
+            contains(p.manufacturer, query.get("manufacturer")) &&
+            (!categoryId || p.productCategoryId === Number(categoryId)) &&
+            matchesActive(p.isActive, query.get("isActive")),
+        )
+        .sort((a, b) => {
+          switch (sortBy) {
+            case SortByOption.NameDesc:
+              return b.name.localeCompare(a.name);
+            case SortByOption.Newest:
+              return b.id - a.id;
+            case SortByOption.Category:
+              return (
+                a.productCategoryId - b.productCategoryId ||
+                a.name.localeCompare(b.name)
+              );
+            default:
+              return a.name.localeCompare(b.name);
+          }
+        });
+      return paged(items, query);
+    }
+
+    case "news": {
+      if (id === "slugs") {
+        return ok(news.map((n) => ({ slug: toSlugWithId(n.title, n.id) })));
+      }
+      if (id) return findById(news, id, "News");
+
+      const year = query.get("year");
+      const items = news
+        .filter(
+          (n) =>
+            contains(n.title, query.get("title")) &&
+            (!year || new Date(n.date).getFullYear() === Number(year)) &&
+            matchesActive(n.isActive, query.get("isActive")),
+        )
+        .sort((a, b) => b.date.localeCompare(a.date));
+      return paged(items, query);
+    }
+
+    case "project": {
+      if (id === "slugs") {
+        return ok(projects.map((p) => ({ slug: toSlugWithId(p.name, p.id) })));
+      }
+      if (id) return findById(projects, id, "Project");
+
+      const items = projects.filter(
+        (p) =>
+          contains(p.name, query.get("name")) &&
+          matchesActive(p.isActive, query.get("isActive")),
+      );
+      return paged(items, query);
+    }
+
+    default:
+      return fail(404, `Unknown endpoint /${path.join("/")}`);
+  }
+}
@@ -0,0 +1,127 @@
+import { cache } from "react";
+import {
+  getNews,
+  getProductCategory,
+  getProducts,
+  getProjects,
+} from "@/api/api";
+import { emptyApiResponse, withFallback } from "@/api/fallback";
+import { PagedResponse } from "@/types/apiResponse";
+import { News } from "@/types/news";
+import { ProductCategory, Products } from "@/types/products";
+import { Projects } from "@/types/projects";
+
+/**
+ * Memoise a loader for the duration of one server request, so the layout,
+ * page and metadata can all ask for the same data while it's fetched once.
+ */
+function requestScoped<T>(key: string, load: () => Promise<T>) {
+  const calls = cache(() => ({ count: 0 }));
+
+  const loadOnce = cache(async () => {
+    const startedAt = Date.now();
+    const result = await load();
+    console.info(`[${key}] loaded in ${Date.now() - startedAt}ms`);
+    return result;
+  });
+
+  return () => {
+    const counter = calls();
+    counter.count += 1;
+    if (counter.count > 1) {
+      console.info(`[${key}] reused for this request (call ${counter.count})`);
+    }
+    return loadOnce();
+  };
+}
+
+/** Product categories, never throws so every page can render without them */
+export const getProductCategories = requestScoped("productCategory", () =>
+  withFallback(
+    "productCategory",
+    // Every page waits on this, so give up sooner than the default
+    () => getProductCategory({ timeoutMs: 5000, retries: 1 }),
+    emptyApiResponse<ProductCategory[]>([]),
+  ),
+);
+
+/** Items asked for per page when loading every page of a list */
+const ALL_PAGES_PAGE_SIZE = 100;
+/** Stop here, well above the current lists */
+const MAX_PAGES = 20;
+/** For every page together, so a slow backend can't hold up the page for long */
+const ALL_PAGES_BUDGET_MS = 8000;
+
+type PageOptions = { timeoutMs: number; retries: number };
+
+/** Every page of a list, the first one alone and the rest in parallel */
+async function loadAllPages<T>(
+  label: string,
+  fetchPage: (
+    page: { pageNumber: number; pageSize: number },
+    options: PageOptions,
+  ) => Promise<PagedResponse<T[]>>,
+) {
+  const deadline = Date.now() + ALL_PAGES_BUDGET_MS;
+  const load = (pageNumber: number, pageSize: number) =>
+    fetchPage(
+      { pageNumber, pageSize },
+      { timeoutMs: Math.max(1, deadline - Date.now()), retries: 0 },
+    );
+
+  const first = await load(1, ALL_PAGES_PAGE_SIZE);
+  if (first.data.length === 0) return [];
+
+  // A backend that caps the page size returns a short first page, keep to its size
+  const pageSize = first.data.length;
+  const pageCount = Math.ceil(first.totalCount / pageSize);
+  if (pageCount > MAX_PAGES) {
+    console.warn(`${label} cut at ${MAX_PAGES} of ${pageCount} pages`);
+  }
+
+  const rest = await Promise.all(
+    Array.from({ length: Math.min(pageCount, MAX_PAGES) - 1 }, (_, i) =>
+      load(i + 2, pageSize),
+    ),
+  );
+  return [first, ...rest].flatMap((page) => page.data);
+}
+
+/**
+ * Every active product, for pages that filter or aggregate across the whole
+ * catalogue. The fetches share the `product` cache tag, never throws.
+ */
+export const getProductCatalogue = requestScoped("productCatalogue", () =>
+  withFallback(
+    "productCatalogue",
+    () =>
+      loadAllPages("Product catalogue", (page, options) =>
+        getProducts({ ...page, isActive: true }, options),
+      ),
+    [] as Products[],
+  ),
+);
+
+/** Every active news article, for the sitemap. Never throws */
+export const getAllNews = requestScoped("allNews", () =>
+  withFallback(
+    "allNews",
+    () =>
+      loadAllPages("News list", (page, options) =>
+        getNews({ ...page, isActive: true }, options),
+      ),
+    [] as News[],
+  ),
+);
+
+/** Every active project, for the sitemap. Never throws */
+export const getAllProjects = requestScoped("allProjects", () =>
+  withFallback(
+    "allProjects",
+    () =>
+      loadAllPages("Project list", (page, options) =>
+        getProjects({ ...page, isActive: true }, options),
+      ),
+    [] as Projects[],
+  ),
+);
@@ -0,0 +1,137 @@
+import { z } from "zod";
+import { ApiError } from "@/api/apiError";
+import { publicConfig } from "@/lib/publicConfig";
+import { DocumentTypeEnum } from "@/lib/enum/documentType";
+import { SpecificationGroupEnum } from "@/lib/enum/specificationGroup";
+
+// Mirrors the types in src/types, which stay the source of truth for components.
+// Output types aren't inferred from these since zod needs strictNullChecks.
+
+const isDev = !publicConfig.isProduction;
+
+/** Accept null or a missing value and substitute a safe default */
+const withDefault = <T extends z.ZodType>(schema: T, value: z.output<T>) =>
+  z.preprocess((v) => v ?? value, schema);
+
+const optionalString = z.preprocess(
+  (v) => v ?? undefined,
+  z.string().optional(),
+);
+
+const imageUrls = withDefault(z.array(z.string()), []);
+
+/**
+ * Lists are strict in development so bad records surface immediately, in
+ * production invalid items are logged and dropped instead of failing the page
+ */
+export const listOf = <T extends z.ZodType>(item: T) =>
+  isDev
+    ? z.array(item)
+    : z.array(z.unknown()).transform((items) =>
+        items.flatMap((raw, index) => {
+          const result = item.safeParse(raw);
+          if (result.success) return [result.data as z.output<T>];
+          console.warn(
+            `Dropping invalid list item at index ${index}:\n${z.prettifyError(result.error)}`,
+          );
+          return [];
+        }),
+      );
+
+export const productCategorySchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  imageUrl: withDefault(z.string(), "/images/logo.png"),
+});
+
+export const productSpecificationSchema = z.object({
+  key: z.string(),
+  label: z.string(),
+  // Groups added on the backend first show up under Construction
+  group: z
+    .enum(SpecificationGroupEnum)
+    .catch(SpecificationGroupEnum.Construction),
+  value: z.union([z.string(), z.number()]),
+  unit: optionalString,
+});
+
+export const productDocumentSchema = z.object({
+  title: z.string(),
+  type: z.enum(DocumentTypeEnum).catch(DocumentTypeEnum.Other),
+  language: withDefault(z.string(), "en"),
+  fileSize: withDefault(z.number(), 0),
+  url: z.string(),
+});
+
+export const productSchema = z.object({
+  id: z.number().optional(),
+  name: z.string(),
+  description: optionalString,
+  productCategoryId: z.number(),
+  manufacturer: withDefault(z.string(), ""),
+  imageUrls,
+  specifications: withDefault(z.array(productSpecificationSchema), []),
+  documents: withDefault(z.array(productDocumentSchema), []),
+  isActive: withDefault(z.boolean(), true),
+});
+
+export const newsSchema = z.object({
+  id: z.number(),
+  title: z.string(),
+  description: optionalString,
+  imageUrls,
+  date: z.string(),
+  isActive: withDefault(z.boolean(), true),
+});
+
+export const projectSchema = z.object({
+  id: z.number().optional(),
+  name: z.string(),
+  description: optionalString,
+  imageUrls,
+  latitude: z.number(),
+  longitude: z.number(),
+  isActive: withDefault(z.boolean(), true),
+  date: z.string(),
+});
+
+const envelope = {
+  succeeded: z.boolean(),
+  message: withDefault(z.string().nullable(), null),
+  errors: withDefault(z.array(z.string()).nullable(), null),
+};
+
+export const apiResponseSchema = <T extends z.ZodType>(data: T) =>
+  z.object({ ...envelope, data });
+
+export const pagedResponseSchema = <T extends z.ZodType>(item: T) =>
+  z.object({
+    ...envelope,
+    totalCount: z.number(),
+    pageNumber: z.number(),
+    pageSize: z.number(),
+    data: listOf(item),
+  });
+
+/** Validate a response body, throwing an ApiError that lists every mismatch */
+export function parseResponse<T>(
+  schema: z.ZodType,
+  json: unknown,
+  endpoint: string,
+): T {
+  const result = schema.safeParse(json);
+  if (result.success) return result.data as T;
+
+  const details = z.prettifyError(result.error);
+  console.error(`Invalid response from ${endpoint}:\n${details}`);
+  throw new ApiError({
+    status: 502,
+    endpoint,
+    message: isDev
+      ? `Invalid response from ${endpoint}:\n${details}`
+      : `Invalid response from ${endpoint}`,
+    errors: result.error.issues.map(
+      (issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`,
+    ),
+  });
+}
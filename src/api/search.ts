@@ -0,0 +1,120 @@
+import { getNews, getProducts, getProjects } from "@/api/api";
+import { emptyPagedResponse, withFallback } from "@/api/fallback";
+import {
+  excerpt,
+  matchesTerms,
+  MAX_SEARCH_LENGTH,
+  MIN_SEARCH_LENGTH,
+  searchTerms,
+  stripHtml,
+} from "@/lib/helper/text";
+import { routes } from "@/lib/routes";
+import { sitePages } from "@/lib/search/pages";
+import { News } from "@/types/news";
+import { Products } from "@/types/products";
+import { Projects } from "@/types/projects";
+import { SearchGroup, SearchResults } from "@/types/search";
+
+/**
+ * Search products, news, projects and the static pages in parallel. Never
+ * throws, a failing source leaves its group out and marks the results degraded.
+ * Every query is different, so results are neither kept as last-known-good
+ * nor stored in the Data Cache, where each query would add an entry.
+ */
+export async function searchSite(
+  query: string,
+  limit = 5,
+): Promise<SearchResults> {
+  const trimmed = query.trim().slice(0, MAX_SEARCH_LENGTH);
+  if (trimmed.length < MIN_SEARCH_LENGTH) {
+    return { query: trimmed, groups: [], degraded: false };
+  }
+
+  const terms = searchTerms(trimmed);
+  const listParams = { pageNumber: 1, pageSize: limit, isActive: true };
+  const productParams = { ...listParams, name: trimmed };
+  const newsParams = { ...listParams, title: trimmed };
+  const projectParams = { ...listParams, name: trimmed };
+  const options = { cache: "no-store" } as const;
+
+  const [products, news, projects] = await Promise.all([
+    withFallback(
+      `product:${JSON.stringify(productParams)}`,
+      () => getProducts(productParams, options),
+      emptyPagedResponse<Products[]>([], 1, limit),
+      { lastKnownGood: false },
+    ),
+    withFallback(
+      `news:${JSON.stringify(newsParams)}`,
+      () => getNews(newsParams, options),
+      emptyPagedResponse<News[]>([], 1, limit),
+      { lastKnownGood: false },
+    ),
+    withFallback(
+      `project:${JSON.stringify(projectParams)}`,
+      () => getProjects(projectParams, options),
+      emptyPagedResponse<Projects[]>([], 1, limit),
+      { lastKnownGood: false },
+    ),
+  ]);
+
+  const snippet = (html?: string) =>
+    html ? excerpt(stripHtml(html), terms) : undefined;
+
+  const groups: SearchGroup[] = [
+    {
+      key: "products",
+      label: "Products",
+      results: products.data.data.map((product) => ({
+        key: `product-${product.id}`,
+        title: product.name,
+        href: routes.product(product),
+        snippet: snippet(product.description),
+      })),
+    },
+    {
+      key: "news",
+      label: "News",
+      results: news.data.data.map((item) => ({
+        key: `news-${item.id}`,
+        title: item.title,
+        href: routes.news(item),
+        snippet: snippet(item.description),
+      })),
+    },
+    {
+      key: "projects",
+      label: "Projects",
+      results: projects.data.data.map((project) => ({
+        key: `project-${project.id}`,
+        title: project.name,
+        href: routes.project(project),
+        snippet: snippet(project.description),
+      })),
+    },
+    {
+      key: "pages",
+      label: "Pages",
+      results: sitePages
+        .filter((page) =>
+          matchesTerms(
+            [page.title, page.description, ...(page.keywords || [])].join(" "),
+            terms,
+          ),
+        )
+        .slice(0, limit)
+        .map((page) => ({
+          key: `page-${page.href}-${page.title}`,
+          title: page.title,
+          href: page.href,
+          snippet: excerpt(page.description, terms),
+        })),
+    },
+  ];
+
+  return {
+    query: trimmed,
+    groups: groups.filter((group) => group.results.length > 0),
+    degraded: products.degraded || news.degraded || projects.degraded,
+  };
+}
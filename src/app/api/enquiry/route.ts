@@ -0,0 +1,120 @@
+import { createHash } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { addEnquiry } from "@/api/api";
+import { toApiError } from "@/api/apiError";
+import { checkFormToken, issueFormToken } from "@/lib/enquiry/formToken";
+import { enquirySubmissionSchema } from "@/lib/enquiry/schema";
+import { clientIp, createRateLimiter } from "@/lib/helper/rateLimiter";
+import { ApiResponse } from "@/types/apiResponse";
+import { EnquirySubmission } from "@/types/enquiry";
+
+const perIpLimiter = createRateLimiter({ limit: 5, windowMs: 10 * 60 * 1000 });
+const duplicateLimiter = createRateLimiter({
+  limit: 1,
+  windowMs: 10 * 60 * 1000,
+});
+
+const respond = (
+  status: number,
+  body: Partial<ApiResponse<string | null>>,
+  init?: ResponseInit,
+) =>
+  NextResponse.json<ApiResponse<string | null>>(
+    { succeeded: status < 400, message: null, errors: null, data: null, ...body },
+    { status, ...init },
+  );
+
+/** A signed issue time for a form that just opened, sent back with the enquiry */
+export async function GET() {
+  return respond(
+    200,
+    { data: issueFormToken() },
+    { headers: { "Cache-Control": "no-store" } },
+  );
+}
+
+/** Validate, filter spam and forward an enquiry to the backend */
+export async function POST(request: NextRequest) {
+  let json: unknown;
+  try {
+    json = await request.json();
+  } catch {
+    return respond(400, { message: "Invalid request body." });
+  }
+
+  const parsed = enquirySubmissionSchema.safeParse(json);
+  if (!parsed.success) {
+    return respond(400, {
+      message: "Please check the highlighted fields.",
+      errors: parsed.error.issues.map(
+        (issue) => `${issue.path.join(".")}: ${issue.message}`,
+      ),
+    });
+  }
+
+  const { website, formToken, ...enquiry } =
+    parsed.data as EnquirySubmission;
+
+  // Bots get a normal looking reply so they don't adapt
+  if (website) {
+    console.warn(`Enquiry honeypot triggered from ${clientIp(request)}`);
+    return respond(200, { data: "Enquiry submitted" });
+  }
+
+  const formCheck = checkFormToken(formToken);
+  if (formCheck === "tooFast") {
+    return respond(400, {
+      message: "That was quick! Please review your enquiry and submit again.",
+    });
+  }
+  if (formCheck !== "valid") {
+    return respond(400, {
+      message: "This form has expired, please submit it again.",
+    });
+  }
+
+  // Only enquiries that would be sent count, so typos don't use up the quota
+  const { allowed, retryAfter } = perIpLimiter.check(clientIp(request));
+  if (!allowed) {
+    return respond(
+      429,
+      { message: "Too many enquiries, please try again later." },
+      { headers: { "Retry-After": String(retryAfter) } },
+    );
+  }
+
+  const fingerprint = createHash("sha256")
+    .update(
+      [
+        enquiry.email.toLowerCase(),
+        enquiry.type,
+        enquiry.message,
+        JSON.stringify(enquiry.details),
+      ].join("|"),
+    )
+    .digest("hex");
+  if (!duplicateLimiter.check(fingerprint).allowed) {
+    return respond(200, {
+      message: "We have already received this enquiry.",
+      data: "Enquiry submitted",
+    });
+  }
+
+  try {
+    const response = await addEnquiry(enquiry);
+    if (!response.succeeded) duplicateLimiter.release(fingerprint);
+    return respond(response.succeeded ? 200 : 400, response);
+  } catch (error) {
+    // Nothing was stored, so a retry must be forwarded rather than deduplicated
+    duplicateLimiter.release(fingerprint);
+    const apiError = toApiError(error, "enquiry");
+    console.error(`Forwarding enquiry failed: ${apiError.message}`);
+    return respond(apiError.kind === "validation" ? 400 : 502, {
+      message:
+        apiError.kind === "validation"
+          ? apiError.message
+          : "We couldn't send your enquiry right now, please try again later.",
+      errors: apiError.errors,
+    });
+  }
+}
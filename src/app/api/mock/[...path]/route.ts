@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { handleMockRequest } from "@/api/mock/handlers";
+import { config } from "@/lib/config";
+
+type Context = { params: Promise<{ path: string[] }> };
+
+async function handle(request: NextRequest, { params }: Context) {
+  if (!config.api.useMock) {
+    return NextResponse.json(null, { status: 404 });
+  }
+
+  const { path } = await params;
+  let body: Record<string, unknown> | null = null;
+  if (request.method === "POST") {
+    try {
+      body = await request.json();
+    } catch {
+      // An unreadable body fails the endpoint validation instead
+    }
+  }
+
+  const result = handleMockRequest(
+    request.method,
+    path,
+    request.nextUrl.searchParams,
+    body,
+  );
+  return NextResponse.json(result.body, { status: result.status });
+}
+
+export const GET = handle;
+export const POST = handle;
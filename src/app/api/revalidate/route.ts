@@ -0,0 +1,67 @@
+import { timingSafeEqual } from "crypto";
+import { revalidateTag } from "next/cache";
+import { NextRequest, NextResponse } from "next/server";
+import { cacheTags, isCacheResource } from "@/api/cache";
+import { config } from "@/lib/config";
+
+const REVALIDATE_SECRET = config.revalidate.secret;
+
+const isValidSecret = (secret: string | null) => {
+  if (!secret || !REVALIDATE_SECRET) return false;
+  const expected = Buffer.from(REVALIDATE_SECRET);
+  const received = Buffer.from(secret);
+  return (
+    expected.length === received.length && timingSafeEqual(expected, received)
+  );
+};
+
+/**
+ * Called by the backend after an edit.
+ * Body: `{ "resource": "product" | "productCategory" | "news" | "project", "id"?: number }`
+ * Header: `x-revalidate-secret: <REVALIDATE_SECRET>`
+ */
+export async function POST(request: NextRequest) {
+  if (!REVALIDATE_SECRET) {
+    return NextResponse.json(
+      { revalidated: false, message: "Revalidation is not configured" },
+      { status: 500 },
+    );
+  }
+
+  if (!isValidSecret(request.headers.get("x-revalidate-secret"))) {
+    return NextResponse.json(
+      { revalidated: false, message: "Invalid secret" },
+      { status: 401 },
+    );
+  }
+
+  let body: { resource?: unknown; id?: number | string };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { revalidated: false, message: "Body must be JSON" },
+      { status: 400 },
+    );
+  }
+
+  const { resource, id } = body;
+  if (!isCacheResource(resource)) {
+    return NextResponse.json(
+      { revalidated: false, message: `Unknown resource: ${String(resource)}` },
+      { status: 400 },
+    );
+  }
+  if (id !== undefined && typeof id !== "number" && typeof id !== "string") {
+    return NextResponse.json(
+      { revalidated: false, message: "id must be a number or string" },
+      { status: 400 },
+    );
+  }
+
+  // The list tag is always refreshed since the item may appear in listings
+  const tags = cacheTags(resource, id);
+  tags.forEach((tag) => revalidateTag(tag));
+
+  return NextResponse.json({ revalidated: true, tags, now: Date.now() });
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { searchSite } from "@/api/search";
+import { clientIp, createRateLimiter } from "@/lib/helper/rateLimiter";
+import { ApiResponse } from "@/types/apiResponse";
+import { SearchResults } from "@/types/search";
+
+/** The palette searches as people type, so allow a steady stream but not a flood */
+const perIpLimiter = createRateLimiter({ limit: 60, windowMs: 60 * 1000 });
+
+/** Grouped site search for the header palette: `GET /api/search?q=<query>` */
+export async function GET(request: NextRequest) {
+  const { allowed, retryAfter } = perIpLimiter.check(clientIp(request));
+  if (!allowed) {
+    return NextResponse.json<ApiResponse<null>>(
+      {
+        succeeded: false,
+        message: "Too many searches, please slow down.",
+        errors: null,
+        data: null,
+      },
+      { status: 429, headers: { "Retry-After": String(retryAfter) } },
+    );
+  }
+
+  // searchSite trims and caps the length
+  const results = await searchSite(request.nextUrl.searchParams.get("q") || "");
+
+  return NextResponse.json<ApiResponse<SearchResults>>(
+    { succeeded: true, message: null, errors: null, data: results },
+    { headers: { "Cache-Control": "public, max-age=60" } },
+  );
+}
@@ -1,7 +1,9 @@
+import { getProductById } from "@/api/api";
 import BreadcrumbWithBgImg from "@/components/Common/BreadcrumbWithBgImg";
 import ContactSection from "@/components/Contact/ContactSection";
 import EnquiryForm from "@/components/Contact/EnquiryForm";
 import { HowCanWeHelp } from "@/components/Contact/HowCanWeHelpBanner";
+import { parseEnquiryContext } from "@/lib/enquiry/context";
 import { getContactSchema } from "@/lib/seo/schema";
 
 import { Metadata } from "next";
@@ -13,7 +15,21 @@ export const metadata: Metadata = {
   // other metadata
 };
 
-const ContactPage = () => {
+const ContactPage = async ({
+  searchParams,
+}: {
+  searchParams: Promise<{ [key: string]: string | string[] | undefined }>;
+}) => {
+  const context = parseEnquiryContext(await searchParams);
+
+  // The chip is a nicety, the enquiry still works without the product name
+  const product =
+    context.productId !== undefined
+      ? await getProductById(context.productId)
+          .then(({ data }) => ({ id: data.id, name: data.name }))
+          .catch(() => undefined)
+      : undefined;
+
   return (
     <>
       <script
@@ -30,7 +46,7 @@ const ContactPage = () => {
       />
       <ContactSection />
       <HowCanWeHelp />
-      <EnquiryForm />
+      <EnquiryForm context={context} product={product} />
     </>
   );
 };
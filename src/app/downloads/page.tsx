@@ -0,0 +1,78 @@
+import { getProductCatalogue, getProductCategories } from "@/api/referenceData";
+import BreadcrumbWithBgImg from "@/components/Common/BreadcrumbWithBgImg";
+import DocumentItem from "@/components/Downloads/DocumentItem";
+import DownloadFilters from "@/components/Downloads/DownloadFilters";
+import ReportDegraded from "@/components/ServiceStatus/ReportDegraded";
+import {
+  collectDocuments,
+  filterDocuments,
+  parseDownloadFilters,
+} from "@/lib/helper/documents";
+import { BASE_URL } from "@/lib/seo/config";
+import { Metadata } from "next";
+import Link from "next/link";
+
+export const metadata: Metadata = {
+  title: "Downloads",
+  description:
+    "Download datasheets, brochures, installation guides and test certificates for United Panel-System insulated panels, cold room doors and refrigeration equipment.",
+  alternates: { canonical: `${BASE_URL}/downloads` },
+};
+
+const DownloadsPage = async ({
+  searchParams,
+}: {
+  searchParams: Promise<{ [key: string]: string | string[] | undefined }>;
+}) => {
+  const params = await searchParams;
+
+  const [
+    { data: categories, degraded: categoriesDegraded },
+    { data: catalogue, degraded: productsDegraded },
+  ] = await Promise.all([getProductCategories(), getProductCatalogue()]);
+
+  const documents = collectDocuments(catalogue);
+  const filters = parseDownloadFilters(params, categories.data);
+  const filtered = filterDocuments(documents, filters);
+
+  return (
+    <>
+      {(categoriesDegraded || productsDegraded) && <ReportDegraded />}
+      <BreadcrumbWithBgImg
+        pageName="Downloads"
+        description="Datasheets, brochures, installation guides and test certificates for our products."
+        image="/images/banner/productBanner.jpg"
+      />
+      <section className="pt-[50px] pb-[120px]">
+        <div className="container">
+          <DownloadFilters
+            documents={documents}
+            categories={categories.data}
+            filters={filters}
+          />
+          {filtered.length > 0 ? (
+            <ul className="overflow-hidden rounded-xs border border-gray-200 dark:border-white/10">
+              {filtered.map((document) => (
+                <DocumentItem key={document.url} document={document} />
+              ))}
+            </ul>
+          ) : (
+            <div className="py-16 text-center">
+              <p className="text-body-color dark:text-body-color-dark mb-6 text-lg">
+                No documents match these filters.
+              </p>
+              <Link
+                href="/downloads"
+                className="bg-primary hover:bg-primary/90 rounded-md px-8 py-3 text-base font-bold text-white"
+              >
+                Show All Documents
+              </Link>
+            </div>
+          )}
+        </div>
+      </section>
+    </>
+  );
+};
+
+export default DownloadsPage;
@@ -0,0 +1,41 @@
+"use client";
+
+import Link from "next/link";
+
+/** Shown when a page throws, e.g. a detail page whose API is unavailable */
+export default function ErrorPage({ reset }: { reset: () => void }) {
+  return (
+    <section className="relative z-10 pt-36 pb-16 md:pb-20 lg:pt-[180px] lg:pb-28">
+      <div className="container">
+        <div className="-mx-4 flex flex-wrap">
+          <div className="w-full px-4">
+            <div className="mx-auto max-w-[530px] text-center">
+              <h3 className="mb-4 text-3xl font-bold text-black sm:text-4xl dark:text-white">
+                This content is temporarily unavailable
+              </h3>
+              <p className="text-body-color mb-6 text-base leading-relaxed font-medium sm:text-lg sm:leading-relaxed">
+                We&apos;re having trouble reaching our servers right now. Please
+                try again in a few minutes.
+              </p>
+              <div className="mt-4 flex flex-wrap justify-center gap-4">
+                <button
+                  type="button"
+                  onClick={reset}
+                  className="bg-primary shadow-signUp hover:text-primary cursor-pointer rounded-md px-8 py-3 text-base font-bold text-white duration-300 hover:bg-white md:px-9 lg:px-8 xl:px-9"
+                >
+                  Try Again
+                </button>
+                <Link
+                  href="/"
+                  className="text-primary rounded-md px-8 py-3 text-base font-bold hover:underline"
+                >
+                  Back to Homepage
+                </Link>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </section>
+  );
+}
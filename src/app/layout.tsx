@@ -42,7 +42,7 @@ export default async function RootLayout({
 }: {
   children: React.ReactNode;
 }) {
-  const categories = await getProductCategory();
+  const { data: categories, degraded } = await getProductCategories();
   return (
     <html suppressHydrationWarning lang="en">
       {/*
@@ -63,14 +63,14 @@ export default async function RootLayout({
         />
         <Script
           strategy="afterInteractive"
-          src="https://www.googletagmanager.com/gtag/js?id=G-XQTL49RNLM"
+          src={`https://www.googletagmanager.com/gtag/js?id=${config.analytics.gaId}`}
         />
         <Script id="gtag-init" strategy="afterInteractive">
           {`
           window.dataLayer = window.dataLayer || [];
           function gtag(){dataLayer.push(arguments);}
           gtag('js', new Date());
-          gtag('config', 'G-XQTL49RNLM');
+          gtag('config', '${config.analytics.gaId}');
         `}
         </Script>
 
@@ -84,12 +84,14 @@ export default async function RootLayout({
           strategy="afterInteractive"
         /> */}
         <BotpressChat />
-        <Providers>
+        <Providers degraded={degraded}>
           <Header productCategories={categories.data} />
+          <DegradedBanner />
           {children}
           <Footer />
           <ScrollToTop />
           <WhatsAppBtn />
+          <CompareBar />
         </Providers>
       </body>
     </html>
@@ -97,11 +99,14 @@ export default async function RootLayout({
 }
 
 import { Providers } from "./providers";
-import { getProductCategory } from "@/api/api";
+import { getProductCategories } from "@/api/referenceData";
+import CompareBar from "@/components/Compare/CompareBar";
+import DegradedBanner from "@/components/ServiceStatus/DegradedBanner";
 import Script from "next/script";
 import WhatsAppBtn from "@/components/CTA/WhatsappBtn";
 import { getOrganizationSchema } from "@/lib/seo/schema";
 import { Metadata } from "next";
 import { BASE_URL } from "@/lib/seo/config";
+import { config } from "@/lib/config";
 import BotpressChat from "@/components/CTA/BotpressChat";
 
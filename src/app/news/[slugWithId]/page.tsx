@@ -1,10 +1,21 @@
 import { getNews, getNewsById } from "@/api/api";
+import { ApiError, toApiError } from "@/api/apiError";
+import { emptyPagedResponse, withFallback } from "@/api/fallback";
+import ApiErrorState from "@/components/Common/ApiErrorState";
 import BreadcrumbWithBgImg from "@/components/Common/BreadcrumbWithBgImg";
 import NewsDetails from "@/components/NewsSection/NewsDetails";
+import {
+  isCanonicalSlug,
+  parseSlugWithId,
+  routes,
+  withSearchParams,
+} from "@/lib/routes";
+import { BASE_URL } from "@/lib/seo/config";
 import { getNewsSchema } from "@/lib/seo/schema";
+import { News } from "@/types/news";
 
 import type { Metadata, ResolvingMetadata } from "next";
-import { notFound } from "next/navigation";
+import { notFound, permanentRedirect } from "next/navigation";
 
 type Props = {
   params: Promise<{ slugWithId: string }>
@@ -16,54 +27,102 @@ export async function generateMetadata(
   parent: ResolvingMetadata
 ): Promise<Metadata> {
   const { slugWithId } = await params;
-  const id = slugWithId.split("-").pop();
+  const id = parseSlugWithId(slugWithId)?.id;
 
-  if (!id || isNaN(Number(id))) {
+  if (id === undefined) {
     return {
       title: "Invalid News ID",
     };
   }
 
-  const news = await getNewsById(Number(id));
+  let news;
+  try {
+    news = await getNewsById(id);
+  } catch (error) {
+    return {
+      title:
+        toApiError(error).kind === "notFound"
+          ? "News Not Found"
+          : "News Temporarily Unavailable",
+      robots: { index: false },
+    };
+  }
   const previousImages = (await parent).openGraph?.images || [];
 
   return {
+    alternates: {
+      canonical: `${BASE_URL}${routes.news({ ...news.data, id })}`,
+    },
     title: `${news.data.title}`,
     description: news.data.description,
     openGraph: {
       title: `${news.data.title}`,
       description: news.data.description,
-      images: [news.data.imageUrls[0], ...previousImages],
+      images: [...news.data.imageUrls.slice(0, 1), ...previousImages],
     },
   };
 }
 
-export default async function NewsDetailsPage({ params }: Props) {
+export default async function NewsDetailsPage({
+  params,
+  searchParams,
+}: Props) {
   const { slugWithId } = await params;
-  const id = slugWithId.split("-").pop();
+  const id = parseSlugWithId(slugWithId)?.id;
 
-  if (!id || isNaN(Number(id))) {
+  if (id === undefined) {
     notFound();
   }
 
   let news;
+  let apiError: ApiError | undefined;
   try {
-    news = await getNewsById(Number(id));
+    news = await getNewsById(id);
   } catch (error) {
-    notFound();
+    apiError = toApiError(error);
   }
 
-  const allNews = await getNews(
-    {
-      pageSize: 4,
-      pageNumber: 1,
-      isActive: true,
-    },
-    { cache: "no-store" },
+  if (apiError) {
+    if (apiError.kind === "notFound") notFound();
+    // Outages go to the error boundary so the response is a 500, not an indexable 200
+    if (apiError.kind !== "validation") throw apiError;
+
+    return (
+      <>
+        <BreadcrumbWithBgImg
+          pageName="News"
+          description=""
+          image="/images/banner/contactUs.png"
+        />
+        <ApiErrorState
+          error={apiError}
+          backHref="/news"
+          backLabel="Back to News"
+        />
+      </>
+    );
+  }
+
+  // Renamed or mistyped slugs move permanently to the current URL
+  const canonicalPath = routes.news({ ...news.data, id });
+  if (!isCanonicalSlug(slugWithId, canonicalPath)) {
+    permanentRedirect(withSearchParams(canonicalPath, await searchParams));
+  }
+
+  // "More news" is secondary, an empty list is better than failing the page
+  const { data: allNews } = await withFallback(
+    "news:more",
+    () =>
+      getNews({
+        pageSize: 4,
+        pageNumber: 1,
+        isActive: true,
+      }),
+    emptyPagedResponse<News[]>([], 1, 4),
   );
 
   const moreNews = allNews.data
-    .filter((news) => news.id !== Number(id))
+    .filter((news) => news.id !== id)
     .slice(0, 3);
 
   return (
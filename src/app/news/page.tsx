@@ -1,6 +1,9 @@
 import { getNews } from "@/api/api";
+import { emptyPagedResponse, withFallback } from "@/api/fallback";
 import BreadcrumbWithBgImg from "@/components/Common/BreadcrumbWithBgImg";
 import NewsList from "@/components/NewsSection/NewsList";
+import ReportDegraded from "@/components/ServiceStatus/ReportDegraded";
+import { News } from "@/types/news";
 import { BASE_URL } from "@/lib/seo/config";
 import { getPaginatedNewsSchema } from "@/lib/seo/schema";
 import { Metadata } from "next";
@@ -23,17 +26,17 @@ const NewsPage = async ({
   const yearParam = params.year || "";
   const filterYear = yearParam ? Number(yearParam) : undefined;
 
-  const news = await getNews(
-    {
-      pageSize: 9,
-      pageNumber: currentPage,
-      isActive: true,
-      title: searchQuery,
-      year: filterYear,
-    },
-    // {
-    //   cache: "no-store",
-    // },
+  const newsParams = {
+    pageSize: 9,
+    pageNumber: currentPage,
+    isActive: true,
+    title: searchQuery,
+    year: filterYear,
+  };
+  const { data: news, degraded } = await withFallback(
+    `news:${JSON.stringify(newsParams)}`,
+    () => getNews(newsParams),
+    emptyPagedResponse<News[]>([], currentPage, newsParams.pageSize),
   );
 
   const schema = getPaginatedNewsSchema(news.data, currentPage);
@@ -47,6 +50,7 @@ const NewsPage = async ({
 
   return (
     <>
+      {degraded && <ReportDegraded />}
       <script
         type="application/ld+json"
         dangerouslySetInnerHTML={{
@@ -1,4 +1,5 @@
 import { getNews, getProducts, getProjects } from "@/api/api";
+import { emptyPagedResponse, withFallback } from "@/api/fallback";
 import PartnershipCarousel from "@/components/Carousel/PartnershipCarousel";
 import ScrollUp from "@/components/Common/ScrollUp";
 import LandingHero from "@/components/Hero/LandingHero";
@@ -10,6 +11,9 @@ import { Metadata } from "next";
 import { AboutUsStickyScroll } from "@/components/About/AboutUsStickyScroll";
 import { Statistic } from "@/components/Projects/Statistic";
 import { ShippingSection } from "@/components/Services/ShippingSection";
+import ReportDegraded from "@/components/ServiceStatus/ReportDegraded";
+import { News } from "@/types/news";
+import { Projects } from "@/types/projects";
 
 // Metadata for SEO
 export const metadata: Metadata = {
@@ -27,20 +31,19 @@ export const metadata: Metadata = {
 // SSG: Fetch data at build time using async function
 export default async function Home() {
   //const products = await getProducts({ pageSize: 3, isActive: true });
-  const projects = await getProjects(
-    { isActive: true },
-    {
-      cache: "no-store",
-    },
+  const { data: projects, degraded: projectsDegraded } = await withFallback(
+    "project:active",
+    () => getProjects({ isActive: true }),
+    emptyPagedResponse<Projects[]>([]),
   );
-  const news = await getNews(
-    { pageSize: 3, isActive: true },
-    {
-      cache: "no-store",
-    },
+  const { data: news, degraded: newsDegraded } = await withFallback(
+    "news:latest",
+    () => getNews({ pageSize: 3, isActive: true }),
+    emptyPagedResponse<News[]>([], 1, 3),
   );
   return (
     <>
+      {(projectsDegraded || newsDegraded) && <ReportDegraded />}
       <ScrollUp />
       <LandingHero />
       <Statistic />
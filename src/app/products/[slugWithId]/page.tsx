@@ -1,11 +1,52 @@
-import { getProductById, getProductCategory } from "@/api/api";
+import { getProductById, getProducts } from "@/api/api";
+import { ApiError, toApiError } from "@/api/apiError";
+import { emptyPagedResponse, withFallback } from "@/api/fallback";
+import { getProductCategories } from "@/api/referenceData";
+import ApiErrorState from "@/components/Common/ApiErrorState";
 import BreadcrumbWithBgImg from "@/components/Common/BreadcrumbWithBgImg";
 import ProductDetails from "@/components/Products/ProductDetails";
+import RelatedProducts from "@/components/Products/RelatedProducts";
+import { rankRelatedProducts } from "@/lib/helper/relatedProducts";
+import {
+  isCanonicalSlug,
+  parseSlugWithId,
+  routes,
+  toSlug,
+  withSearchParams,
+} from "@/lib/routes";
+import { BASE_URL } from "@/lib/seo/config";
 import { getProductSchema } from "@/lib/seo/schema";
+import { Products } from "@/types/products";
 
 import type { Metadata, ResolvingMetadata } from "next";
-import { notFound } from "next/navigation";
-import slugify from "slugify";
+import { notFound, permanentRedirect } from "next/navigation";
+
+const RELATED_LIMIT = 8;
+/** Candidates fetched per query before ranking */
+const RELATED_CANDIDATES = 24;
+
+/** Same category and same manufacturer candidates, empty when the API is down */
+const getRelatedCandidates = async (product: Products) => {
+  const queries = [
+    { productCategoryId: product.productCategoryId },
+    ...(product.manufacturer ? [{ manufacturer: product.manufacturer }] : []),
+  ].map((filter) => {
+    const params = {
+      ...filter,
+      pageNumber: 1,
+      pageSize: RELATED_CANDIDATES,
+      isActive: true,
+    };
+    return withFallback(
+      `product:${JSON.stringify(params)}`,
+      () => getProducts(params),
+      emptyPagedResponse<Products[]>([], 1, RELATED_CANDIDATES),
+    );
+  });
+
+  const results = await Promise.all(queries);
+  return results.flatMap(({ data }) => data.data);
+};
 
 type Props = {
   params: Promise<{ slugWithId: string }>
@@ -17,51 +58,99 @@ export async function generateMetadata(
   parent: ResolvingMetadata
 ): Promise<Metadata> {
   const { slugWithId } = await params;
-  const id = slugWithId.split("-").pop();
+  const id = parseSlugWithId(slugWithId)?.id;
 
-  if (!id || isNaN(Number(id))) {
+  if (id === undefined) {
     return {
       title: "Invalid Product ID",
     };
   }
 
-  const product = await getProductById(Number(id));
+  let product;
+  try {
+    product = await getProductById(id);
+  } catch (error) {
+    return {
+      title:
+        toApiError(error).kind === "notFound"
+          ? "Product Not Found"
+          : "Product Temporarily Unavailable",
+      robots: { index: false },
+    };
+  }
   const previousImages = (await parent).openGraph?.images || [];
 
   return {
+    alternates: {
+      canonical: `${BASE_URL}${routes.product({ ...product.data, id })}`,
+    },
     title: `${product.data.name}`,
     description: product.data.description,
     openGraph: {
       title: `${product.data.name}`,
       description: product.data.description,
-      images: [product.data.imageUrls[0], ...previousImages],
+      images: [...product.data.imageUrls.slice(0, 1), ...previousImages],
     },
   };
 }
 
-export default async function ProductDetailsPage({ params }: Props) {
+export default async function ProductDetailsPage({
+  params,
+  searchParams,
+}: Props) {
   const { slugWithId } = await params;
-  const id = slugWithId.split("-").pop();
+  const id = parseSlugWithId(slugWithId)?.id;
 
-  if (!id || isNaN(Number(id))) {
+  if (id === undefined) {
     notFound();
   }
 
   let product;
-  let categories;
+  let apiError: ApiError | undefined;
 
   try {
-    product = await getProductById(Number(id));
-    categories = await getProductCategory();
+    product = await getProductById(id);
   } catch (error) {
-    notFound();
+    apiError = toApiError(error);
+  }
+
+  if (apiError) {
+    if (apiError.kind === "notFound") notFound();
+    // Outages go to the error boundary so the response is a 500, not an indexable 200
+    if (apiError.kind !== "validation") throw apiError;
+
+    return (
+      <>
+        <BreadcrumbWithBgImg
+          pageName="Products"
+          description=""
+          image="/images/banner/productBanner.jpg"
+        />
+        <ApiErrorState
+          error={apiError}
+          backHref="/products"
+          backLabel="Back to Products"
+        />
+      </>
+    );
   }
 
+  // Renamed or mistyped slugs move permanently to the current URL
+  const canonicalPath = routes.product({ ...product.data, id });
+  if (!isCanonicalSlug(slugWithId, canonicalPath)) {
+    permanentRedirect(withSearchParams(canonicalPath, await searchParams));
+  }
+
+  const [{ data: categories }, candidates] = await Promise.all([
+    getProductCategories(),
+    getRelatedCandidates(product.data),
+  ]);
+
   const category = categories.data.find(
     (c) => c.id === product.data.productCategoryId,
   );
 
-  const categoryName = slugify(category?.name || "", { lower: true });
+  const categoryName = toSlug(category?.name || "");
 
   return (
     <>
@@ -86,6 +175,9 @@ export default async function ProductDetailsPage({ params }: Props) {
         categories={categories.data}
         filterCategory={categoryName}
       />
+      <RelatedProducts
+        products={rankRelatedProducts(product.data, candidates, RELATED_LIMIT)}
+      />
     </>
   );
 }
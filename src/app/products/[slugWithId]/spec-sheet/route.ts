@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getProductById } from "@/api/api";
+import { toApiError } from "@/api/apiError";
+import { getProductCategories } from "@/api/referenceData";
+import { config } from "@/lib/config";
+import { ImageLoader, renderSpecSheet } from "@/lib/pdf/specSheet";
+import { parseSlugWithId, toSlug } from "@/lib/routes";
+
+const IMAGE_TIMEOUT_MS = 5000;
+
+/**
+ * `filename` keeps to a plain ASCII slug for older clients, `filename*` gives
+ * the product's own name percent-encoded as RFC 5987 asks.
+ */
+const attachment = (name: string) => {
+  const slug = toSlug(name).replace(/[^a-z0-9-]/g, "") || "product";
+  const encoded = encodeURIComponent(`${name} spec sheet.pdf`).replace(
+    /['()*]/g,
+    (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`,
+  );
+  return `attachment; filename="${slug}-spec-sheet.pdf"; filename*=UTF-8''${encoded}`;
+};
+
+/**
+ * Relative image paths are served by this site, absolute ones by the backend
+ * or CDN. The configured site URL is used rather than the request's Host
+ * header, which the client could point at any server.
+ */
+const loadImage: ImageLoader = async (src) => {
+  try {
+    const response = await fetch(new URL(src, config.siteUrl), {
+      signal: AbortSignal.timeout(IMAGE_TIMEOUT_MS),
+    });
+    if (!response.ok) return null;
+    return new Uint8Array(await response.arrayBuffer());
+  } catch (error) {
+    console.warn(`Spec sheet image ${src} could not be loaded`, error);
+    return null;
+  }
+};
+
+/** Printable PDF spec sheet, linked from the product page */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slugWithId: string }> },
+) {
+  const id = parseSlugWithId((await params).slugWithId)?.id;
+  if (id === undefined) {
+    return NextResponse.json(
+      { message: "Invalid product ID" },
+      { status: 404 },
+    );
+  }
+
+  let product;
+  try {
+    product = (await getProductById(id)).data;
+  } catch (error) {
+    const apiError = toApiError(error);
+    return apiError.kind === "notFound"
+      ? NextResponse.json({ message: "Product not found" }, { status: 404 })
+      : NextResponse.json(
+          { message: "Product is temporarily unavailable" },
+          { status: 502 },
+        );
+  }
+
+  const { data: categories } = await getProductCategories();
+  const pdf = await renderSpecSheet({
+    product,
+    categoryName: categories.data.find(
+      (c) => c.id === product.productCategoryId,
+    )?.name,
+    loadImage,
+  });
+
+  return new NextResponse(Buffer.from(pdf), {
+    headers: {
+      "Content-Type": "application/pdf",
+      "Content-Disposition": attachment(product.name),
+      "Cache-Control": "no-store",
+    },
+  });
+}
@@ -1,6 +1,7 @@
-import { getProductCategory } from "@/api/api";
+import { getProductCategories } from "@/api/referenceData";
 import BreadcrumbWithBgImg from "@/components/Common/BreadcrumbWithBgImg";
 import ProductCategorySection from "@/components/Products/ProductCategory";
+import ReportDegraded from "@/components/ServiceStatus/ReportDegraded";
 import { Metadata } from "next";
 
 export const metadata: Metadata = {
@@ -10,10 +11,11 @@ export const metadata: Metadata = {
 };
 
 const ProductCategoryPage = async () => {
-  const categories = await getProductCategory();
+  const { data: categories, degraded } = await getProductCategories();
 
   return (
     <>
+      {degraded && <ReportDegraded />}
       <BreadcrumbWithBgImg
         pageName="Product Categories"
         description="Browse our wide range of panel system categories designed to meet the highest standards in industrial and commercial construction."
@@ -0,0 +1,77 @@
+import { getProductById } from "@/api/api";
+import { toApiError } from "@/api/apiError";
+import { getProductCategories } from "@/api/referenceData";
+import BreadcrumbWithBgImg from "@/components/Common/BreadcrumbWithBgImg";
+import CompareTable from "@/components/Compare/CompareTable";
+import ReportDegraded from "@/components/ServiceStatus/ReportDegraded";
+import { parseCompareIds } from "@/lib/compare";
+import { Products } from "@/types/products";
+import { Metadata } from "next";
+import Link from "next/link";
+
+export const metadata: Metadata = {
+  title: "Compare Products",
+  description:
+    "Compare United Panel-System products side by side, including manufacturer, category and specifications.",
+  robots: { index: false, follow: true },
+};
+
+const CompareProductsPage = async ({
+  searchParams,
+}: {
+  searchParams: Promise<{ [key: string]: string | string[] | undefined }>;
+}) => {
+  const ids = parseCompareIds((await searchParams).ids);
+
+  const [results, { data: categories, degraded: categoriesDegraded }] =
+    await Promise.all([
+      Promise.allSettled(ids.map((id) => getProductById(id))),
+      getProductCategories(),
+    ]);
+
+  const products: Products[] = [];
+  let degraded = categoriesDegraded;
+  results.forEach((result) => {
+    if (result.status === "fulfilled") {
+      products.push(result.value.data);
+    } else if (toApiError(result.reason).kind !== "notFound") {
+      // Removed products just drop out of a shared link, outages are reported
+      degraded = true;
+    }
+  });
+
+  return (
+    <>
+      {degraded && <ReportDegraded />}
+      <BreadcrumbWithBgImg
+        pageName="Compare Products"
+        description=""
+        image="/images/banner/productBanner.jpg"
+        breadcrumbs={[
+          { label: "Home", href: "/" },
+          { label: "Products", href: "/products" },
+          { label: "Compare" },
+        ]}
+      />
+      {products.length > 0 ? (
+        <CompareTable products={products} categories={categories.data} />
+      ) : (
+        <section className="pt-16 pb-16 md:pb-20 lg:pb-28">
+          <div className="container text-center">
+            <p className="text-body-color dark:text-body-color-dark mb-6 text-lg">
+              Use the Compare button on any product to add it here.
+            </p>
+            <Link
+              href="/products"
+              className="bg-primary hover:bg-primary/90 rounded-md px-8 py-3 text-base font-bold text-white"
+            >
+              Browse Products
+            </Link>
+          </div>
+        </section>
+      )}
+    </>
+  );
+};
+
+export default CompareProductsPage;
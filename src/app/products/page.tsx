@@ -1,10 +1,18 @@
-import { getProductCategory, getProducts } from "@/api/api";
+import { getProductCatalogue, getProductCategories } from "@/api/referenceData";
 import BreadcrumbWithBgImg from "@/components/Common/BreadcrumbWithBgImg";
 import ProductListSection from "@/components/Products/ProductListSection";
+import ReportDegraded from "@/components/ServiceStatus/ReportDegraded";
+import { parseSortBy } from "@/lib/enum/sortByOption";
+import {
+  buildFacets,
+  filterProducts,
+  getProductFacetDefinitions,
+  parseFacetSelection,
+} from "@/lib/helper/productFacets";
+import { searchProducts, sortProducts } from "@/lib/helper/productList";
 import { BASE_URL } from "@/lib/seo/config";
 import { getPaginatedProductSchema } from "@/lib/seo/schema";
 import { Metadata } from "next";
-import slugify from "slugify";
 
 export const metadata: Metadata = {
   title: "Product List",
@@ -12,45 +20,53 @@ export const metadata: Metadata = {
     "Explore high-quality panel systems and construction solutions offered by United Panel System (M) Sdn. Bhd. Browse our full product range tailored for industrial and commercial applications.",
 };
 
+const PAGE_SIZE = 10;
+
 const ProductListPage = async ({
   searchParams,
 }: {
-  searchParams: Promise<{ [key: string]: string | undefined }>;
+  searchParams: Promise<{ [key: string]: string | string[] | undefined }>;
 }) => {
   const params = await searchParams;
 
   const currentPage = Number(params.page) || 1;
-  const categoryQuery = params.category || "";
-  const searchQuery = params.search || "";
-  const sortByOption = Number(params.sortBy) || 1;
+  const searchQuery = typeof params.search === "string" ? params.search : "";
+  const sortByOption = parseSortBy(params.sortBy);
 
-  const categories = await getProductCategory();
+  const [
+    { data: categories, degraded: categoriesDegraded },
+    { data: catalogue, degraded: productsDegraded },
+  ] = await Promise.all([getProductCategories(), getProductCatalogue()]);
 
-  const category = categories.data.find(
-    (c) => slugify(c.name, { lower: true }) === categoryQuery.toLowerCase(),
+  // The backend filters one value per field, so search, facets, sorting and
+  // paging all run here over the shared catalogue
+  const matching = sortProducts(
+    searchProducts(catalogue, searchQuery),
+    sortByOption,
   );
-  const categoryId = category?.id;
 
-  const products = await getProducts({
-    pageNumber: currentPage,
-    pageSize: 10,
-    productCategoryId: categoryId,
-    name: searchQuery,
-    sortBy: sortByOption,
-    isActive: true,
-  });
+  const facetDefinitions = getProductFacetDefinitions(categories.data);
+  const selection = parseFacetSelection(params, facetDefinitions);
+  const facets = buildFacets(matching, facetDefinitions, selection);
+  const filtered = filterProducts(matching, facetDefinitions, selection);
+  const products = filtered.slice(
+    (currentPage - 1) * PAGE_SIZE,
+    currentPage * PAGE_SIZE,
+  );
+  const totalPages = Math.ceil(filtered.length / PAGE_SIZE);
 
-  const schema = getPaginatedProductSchema(products.data, currentPage);
+  const schema = getPaginatedProductSchema(products, currentPage);
   const canonicalUrl = `${BASE_URL}/products${currentPage > 1 ? `?page=${currentPage}` : ""}`;
   const prevUrl =
     currentPage > 1 ? `${BASE_URL}/products?page=${currentPage - 1}` : null;
   const nextUrl =
-    currentPage < products.totalCount
+    currentPage < totalPages
       ? `${BASE_URL}/products?page=${currentPage + 1}`
       : null;
 
   return (
     <>
+      {(categoriesDegraded || productsDegraded) && <ReportDegraded />}
       <script
         type="application/ld+json"
         dangerouslySetInnerHTML={{
@@ -66,13 +82,13 @@ const ProductListPage = async ({
         image="/images/banner/productBanner.jpg"
       />
       <ProductListSection
-        products={products.data}
+        products={products}
         currentPage={currentPage}
-        pageSize={products.pageSize}
-        totalCount={products.totalCount}
-        categories={categories.data}
+        pageSize={PAGE_SIZE}
+        totalCount={filtered.length}
+        facets={facets}
         searchQuery={searchQuery}
-        filterCategory={categoryQuery}
+        sortBy={sortByOption}
       />
     </>
   );
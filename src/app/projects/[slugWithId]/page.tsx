@@ -1,10 +1,19 @@
 import { getProjectById } from "@/api/api";
+import { ApiError, toApiError } from "@/api/apiError";
+import ApiErrorState from "@/components/Common/ApiErrorState";
 import BreadcrumbWithBgImg from "@/components/Common/BreadcrumbWithBgImg";
 import ProjectDetails from "@/components/Projects/ProjectDetails";
+import {
+  isCanonicalSlug,
+  parseSlugWithId,
+  routes,
+  withSearchParams,
+} from "@/lib/routes";
+import { BASE_URL } from "@/lib/seo/config";
 import { getProjectSchema } from "@/lib/seo/schema";
 
 import type { Metadata, ResolvingMetadata } from "next";
-import { notFound } from "next/navigation";
+import { notFound, permanentRedirect } from "next/navigation";
 
 type Props = {
   params: Promise<{ slugWithId: string }>
@@ -16,41 +25,86 @@ export async function generateMetadata(
   parent: ResolvingMetadata
 ): Promise<Metadata> {
   const { slugWithId } = await params;
-  const id = slugWithId.split("-").pop();
+  const id = parseSlugWithId(slugWithId)?.id;
 
-  if (!id || isNaN(Number(id))) {
+  if (id === undefined) {
     return {
       title: "Invalid Project ID",
     };
   }
 
-  const project = await getProjectById(Number(id));
+  let project;
+  try {
+    project = await getProjectById(id);
+  } catch (error) {
+    return {
+      title:
+        toApiError(error).kind === "notFound"
+          ? "Project Not Found"
+          : "Project Temporarily Unavailable",
+      robots: { index: false },
+    };
+  }
   const previousImages = (await parent).openGraph?.images || [];
 
   return {
+    alternates: {
+      canonical: `${BASE_URL}${routes.project({ ...project.data, id })}`,
+    },
     title: `${project.data.name}`,
     description: project.data.description,
     openGraph: {
       title: `${project.data.name}`,
       description: project.data.description,
-      images: [project.data.imageUrls[0], ...previousImages],
+      images: [...project.data.imageUrls.slice(0, 1), ...previousImages],
     },
   };
 }
 
-export default async function ProjectDetailsPage({ params }: Props) {
+export default async function ProjectDetailsPage({
+  params,
+  searchParams,
+}: Props) {
   const { slugWithId } = await params;
-  const id = slugWithId.split("-").pop();
+  const id = parseSlugWithId(slugWithId)?.id;
 
-  if (!id || isNaN(Number(id))) {
+  if (id === undefined) {
     notFound();
   }
 
   let project;
+  let apiError: ApiError | undefined;
   try {
-    project = await getProjectById(Number(id));
+    project = await getProjectById(id);
   } catch (error) {
-    notFound();
+    apiError = toApiError(error);
+  }
+
+  if (apiError) {
+    if (apiError.kind === "notFound") notFound();
+    // Outages go to the error boundary so the response is a 500, not an indexable 200
+    if (apiError.kind !== "validation") throw apiError;
+
+    return (
+      <>
+        <BreadcrumbWithBgImg
+          pageName="Projects"
+          description=""
+          image="/images/projects/IMG-20250520-WA0017.jpg"
+        />
+        <ApiErrorState
+          error={apiError}
+          backHref="/projects"
+          backLabel="Back to Projects"
+        />
+      </>
+    );
+  }
+
+  // Renamed or mistyped slugs move permanently to the current URL
+  const canonicalPath = routes.project({ ...project.data, id });
+  if (!isCanonicalSlug(slugWithId, canonicalPath)) {
+    permanentRedirect(withSearchParams(canonicalPath, await searchParams));
   }
 
   return (
@@ -1,6 +1,9 @@
 import { getProjects } from "@/api/api";
+import { emptyPagedResponse, withFallback } from "@/api/fallback";
 import BreadcrumbWithBgImg from "@/components/Common/BreadcrumbWithBgImg";
 import ProjectListMap from "@/components/Projects/ProjectListMap";
+import ReportDegraded from "@/components/ServiceStatus/ReportDegraded";
+import { Projects } from "@/types/projects";
 import { getProjectListSchema } from "@/lib/seo/schema";
 
 import { Metadata } from "next";
@@ -13,14 +16,14 @@ export const metadata: Metadata = {
 };
 
 const ProjectPage = async () => {
-  const projects = await getProjects(
-    { isActive: true },
-    {
-      cache: "no-store",
-    },
+  const { data: projects, degraded } = await withFallback(
+    "project:active",
+    () => getProjects({ isActive: true }),
+    emptyPagedResponse<Projects[]>([]),
   );
   return (
     <>
+      {degraded && <ReportDegraded />}
       <script
         type="application/ld+json"
         dangerouslySetInnerHTML={{
@@ -1,11 +1,24 @@
 "use client";
 
+import { CompareProvider } from "@/components/Compare/CompareProvider";
+import { QuoteBasketProvider } from "@/components/QuoteBasket/QuoteBasketProvider";
+import { ServiceStatusProvider } from "@/components/ServiceStatus/ServiceStatusProvider";
 import { ThemeProvider } from "next-themes";
 
-export function Providers({ children }: { children: React.ReactNode }) {
+export function Providers({
+  degraded = false,
+  children,
+}: {
+  degraded?: boolean;
+  children: React.ReactNode;
+}) {
   return (
     <ThemeProvider attribute="class" enableSystem={false} defaultTheme="dark">
-      {children}
+      <ServiceStatusProvider initialDegraded={degraded}>
+        <CompareProvider>
+          <QuoteBasketProvider>{children}</QuoteBasketProvider>
+        </CompareProvider>
+      </ServiceStatusProvider>
     </ThemeProvider>
   );
 }
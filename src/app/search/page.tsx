@@ -0,0 +1,110 @@
+import { searchSite } from "@/api/search";
+import BreadcrumbWithBgImg from "@/components/Common/BreadcrumbWithBgImg";
+import Highlight from "@/components/Search/Highlight";
+import SearchForm from "@/components/Search/SearchForm";
+import ReportDegraded from "@/components/ServiceStatus/ReportDegraded";
+import { MAX_SEARCH_LENGTH, MIN_SEARCH_LENGTH } from "@/lib/helper/text";
+import { Metadata } from "next";
+import Link from "next/link";
+
+export const metadata: Metadata = {
+  title: "Search",
+  description: "Search United Panel-System products, news, projects and pages.",
+  robots: { index: false, follow: true },
+};
+
+/** Results per group, the palette shows fewer */
+const RESULTS_PER_GROUP = 20;
+
+const SearchPage = async ({
+  searchParams,
+}: {
+  searchParams: Promise<{ [key: string]: string | string[] | undefined }>;
+}) => {
+  const { q } = await searchParams;
+  const query = (typeof q === "string" ? q : "")
+    .trim()
+    .slice(0, MAX_SEARCH_LENGTH);
+  const results = await searchSite(query, RESULTS_PER_GROUP);
+  const total = results.groups.reduce(
+    (sum, group) => sum + group.results.length,
+    0,
+  );
+
+  return (
+    <>
+      {results.degraded && <ReportDegraded />}
+      <BreadcrumbWithBgImg
+        pageName="Search"
+        description=""
+        image="/images/banner/productBanner.jpg"
+      />
+      <section className="pt-[50px] pb-[120px]">
+        <div className="container max-w-4xl">
+          <SearchForm query={query} />
+
+          {query.length >= MIN_SEARCH_LENGTH && (
+            <p className="text-body-color dark:text-body-color-dark mb-8">
+              {total} {total === 1 ? "result" : "results"} for &ldquo;{query}
+              &rdquo;
+            </p>
+          )}
+          {query.length > 0 && query.length < MIN_SEARCH_LENGTH && (
+            <p className="text-body-color dark:text-body-color-dark mb-8">
+              Type at least {MIN_SEARCH_LENGTH} characters to search.
+            </p>
+          )}
+
+          <div className="space-y-10">
+            {results.groups.map((group) => (
+              <div key={group.key}>
+                <h2 className="mb-4 text-xl font-semibold text-gray-900 dark:text-white">
+                  {group.label}{" "}
+                  <span className="text-body-color text-base font-normal">
+                    ({group.results.length})
+                  </span>
+                </h2>
+                <ul className="divide-y divide-gray-200 rounded-xs border border-gray-200 dark:divide-white/10 dark:border-white/10">
+                  {group.results.map((result) => (
+                    <li key={result.key}>
+                      <Link
+                        href={result.href}
+                        className="block px-4 py-3 hover:bg-gray-50 dark:hover:bg-white/5"
+                      >
+                        <p className="font-medium text-gray-900 dark:text-white">
+                          <Highlight text={result.title} query={query} />
+                        </p>
+                        {result.snippet && (
+                          <p className="text-body-color dark:text-body-color-dark mt-1 text-sm">
+                            <Highlight text={result.snippet} query={query} />
+                          </p>
+                        )}
+                      </Link>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+
+          {query.length >= MIN_SEARCH_LENGTH && total === 0 && (
+            <div className="py-10 text-center">
+              <p className="text-body-color dark:text-body-color-dark mb-6 text-lg">
+                Nothing matched your search. Try fewer or different words, or
+                browse our products.
+              </p>
+              <Link
+                href="/products"
+                className="bg-primary hover:bg-primary/90 rounded-md px-8 py-3 text-base font-bold text-white"
+              >
+                Browse Products
+              </Link>
+            </div>
+          )}
+        </div>
+      </section>
+    </>
+  );
+};
+
+export default SearchPage;
@@ -1,52 +1,50 @@
-import { getServerSideSitemap } from 'next-sitemap'
+import { ISitemapField, getServerSideSitemap } from 'next-sitemap'
+import {
+  getAllNews,
+  getAllProjects,
+  getProductCatalogue,
+} from '@/api/referenceData'
+import { config } from '@/lib/config'
+import { routes } from '@/lib/routes'
 
-process.env.NODE_TLS_REJECT_UNAUTHORIZED = '0'
+const SITE_URL = config.siteUrl
 
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'https://localhost:9001/api/v1'
-const SITE_URL = process.env.NEXT_PUBLIC_SITE_URL || 'https://ur-customer-support-web-nextjs.vercel.app'
-
-const fetchSlugs = async (endpoint: string) => {
-  try {
-    const res = await fetch(`${API_BASE_URL}${endpoint}`, {
-      next: { revalidate: 86400 },
-    })
-    if (!res.ok)
-      throw new Error(`Failed to fetch ${API_BASE_URL}${endpoint}`)
-    const json = await res.json()
-    return json.data || []
-  } catch (error) {
-    console.error(error)
-    return []
-  }
-}
+/** Built from each entity's name and id, exactly like its page's canonical */
+const toFields = <T extends { id?: number }>(
+  entities: T[],
+  path: (entity: T & { id: number }) => string,
+  field: Pick<ISitemapField, 'changefreq' | 'priority'>,
+): ISitemapField[] =>
+  entities.flatMap((entity) =>
+    entity.id === undefined
+      ? []
+      : [
+          {
+            loc: `${SITE_URL}${path({ ...entity, id: entity.id })}`,
+            ...field,
+            lastmod: new Date().toISOString(),
+          },
+        ],
+  )
 
 export async function GET() {
-  const [products, news, projects] = await Promise.all([
-    fetchSlugs('/product/slugs'),
-    fetchSlugs('/news/slugs'),
-    fetchSlugs('/project/slugs'),
-  ])
+  const [{ data: products }, { data: news }, { data: projects }] =
+    await Promise.all([getProductCatalogue(), getAllNews(), getAllProjects()])
 
   const urls = [
-    ...products.map((p: any) => ({
-      loc: `${SITE_URL}/products/${p.slug}`,
+    ...toFields(products, routes.product, {
       changefreq: 'weekly',
       priority: 0.9,
-      lastmod: new Date().toISOString(),
-    })),
-    ...news.map((n: any) => ({
-      loc: `${SITE_URL}/news/${n.slug}`,
+    }),
+    ...toFields(news, routes.news, {
       changefreq: 'daily',
       priority: 0.7,
-      lastmod: new Date().toISOString(),
-    })),
-    ...projects.map((prj: any) => ({
-      loc: `${SITE_URL}/projects/${prj.slug}`,
+    }),
+    ...toFields(projects, routes.project, {
       changefreq: 'monthly',
       priority: 0.8,
-      lastmod: new Date().toISOString(),
-    })),
+    }),
   ]
 
   return getServerSideSitemap(urls)
-}
\ No newline at end of file
+}
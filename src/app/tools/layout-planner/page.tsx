@@ -0,0 +1,35 @@
+import BreadcrumbWithBgImg from "@/components/Common/BreadcrumbWithBgImg";
+import ColdRoomPlanner from "@/components/Tools/ColdRoomPlanner";
+import { BASE_URL } from "@/lib/seo/config";
+import { Metadata } from "next";
+
+export const metadata: Metadata = {
+  title: "Cold Room Layout Planner",
+  description:
+    "Sketch your cold room's walls, doors and partitions on a grid and get a bill of materials for the panels, doors and trims it needs.",
+  alternates: { canonical: `${BASE_URL}/tools/layout-planner` },
+};
+
+const LayoutPlannerPage = () => {
+  return (
+    <>
+      <BreadcrumbWithBgImg
+        pageName="Cold Room Layout Planner"
+        description="Sketch your cold room, see the panels, doors and trims it needs and send the layout with your enquiry."
+        image="/images/banner/productBanner.jpg"
+        breadcrumbs={[
+          { label: "Home", href: "/" },
+          { label: "Tools" },
+          { label: "Cold Room Layout Planner" },
+        ]}
+      />
+      <section className="pt-[50px] pb-[120px]">
+        <div className="container">
+          <ColdRoomPlanner />
+        </div>
+      </section>
+    </>
+  );
+};
+
+export default LayoutPlannerPage;
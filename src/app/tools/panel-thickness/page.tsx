@@ -0,0 +1,64 @@
+import { getProductCatalogue } from "@/api/referenceData";
+import BreadcrumbWithBgImg from "@/components/Common/BreadcrumbWithBgImg";
+import PanelThicknessCalculator from "@/components/Tools/PanelThicknessCalculator";
+import { parseThicknessInputs } from "@/lib/calculators/panelThickness";
+import { BASE_URL } from "@/lib/seo/config";
+import { Products } from "@/types/products";
+import { Metadata } from "next";
+
+export const metadata: Metadata = {
+  title: "Panel Thickness Calculator",
+  description:
+    "Work out the PIR, PU or PS insulated panel thickness your cold room or freezer needs from its temperatures and a target heat loss or U-value.",
+  alternates: { canonical: `${BASE_URL}/tools/panel-thickness` },
+};
+
+/** Active products per core and thickness, so the calculator only links to real matches */
+const countPanels = (products: Products[]) => {
+  const counts: Record<string, number> = {};
+  products.forEach((product) => {
+    const spec = (key: string) =>
+      product.specifications?.find((s) => s.key === key)?.value;
+    const core = spec("coreMaterial");
+    const thickness = spec("thickness");
+    if (core === undefined || thickness === undefined) return;
+    const key = `${String(core).toUpperCase()}:${thickness}`;
+    counts[key] = (counts[key] || 0) + 1;
+  });
+  return counts;
+};
+
+const PanelThicknessPage = async ({
+  searchParams,
+}: {
+  searchParams: Promise<{ [key: string]: string | string[] | undefined }>;
+}) => {
+  const initialInputs = parseThicknessInputs(await searchParams);
+
+  const { data: catalogue } = await getProductCatalogue();
+
+  return (
+    <>
+      <BreadcrumbWithBgImg
+        pageName="Panel Thickness Calculator"
+        description="Find the insulated panel thickness for your room temperature and energy target."
+        image="/images/banner/productBanner.jpg"
+        breadcrumbs={[
+          { label: "Home", href: "/" },
+          { label: "Tools" },
+          { label: "Panel Thickness Calculator" },
+        ]}
+      />
+      <section className="pt-[50px] pb-[120px]">
+        <div className="container">
+          <PanelThicknessCalculator
+            initialInputs={initialInputs}
+            productCounts={countPanels(catalogue)}
+          />
+        </div>
+      </section>
+    </>
+  );
+};
+
+export default PanelThicknessPage;
@@ -0,0 +1,42 @@
+import BreadcrumbWithBgImg from "@/components/Common/BreadcrumbWithBgImg";
+import RefrigerationLoadEstimator from "@/components/Tools/RefrigerationLoadEstimator";
+import { parseLoadInputs } from "@/lib/calculators/refrigerationLoad";
+import { BASE_URL } from "@/lib/seo/config";
+import { Metadata } from "next";
+
+export const metadata: Metadata = {
+  title: "Cold Room Refrigeration Load Estimator",
+  description:
+    "Estimate the refrigeration capacity in kW your cold room or freezer needs from its size, set-point, product throughput, door openings and ambient conditions.",
+  alternates: { canonical: `${BASE_URL}/tools/refrigeration-load` },
+};
+
+const RefrigerationLoadPage = async ({
+  searchParams,
+}: {
+  searchParams: Promise<{ [key: string]: string | string[] | undefined }>;
+}) => {
+  const initialInputs = parseLoadInputs(await searchParams);
+
+  return (
+    <>
+      <BreadcrumbWithBgImg
+        pageName="Refrigeration Load Estimator"
+        description="Estimate the refrigeration capacity your cold room needs and send it with your enquiry."
+        image="/images/banner/productBanner.jpg"
+        breadcrumbs={[
+          { label: "Home", href: "/" },
+          { label: "Tools" },
+          { label: "Refrigeration Load Estimator" },
+        ]}
+      />
+      <section className="pt-[50px] pb-[120px]">
+        <div className="container">
+          <RefrigerationLoadEstimator initialInputs={initialInputs} />
+        </div>
+      </section>
+    </>
+  );
+};
+
+export default RefrigerationLoadPage;
@@ -2,16 +2,17 @@
 "use client";
 
 import Script from "next/script";
+import { publicConfig } from "@/lib/publicConfig";
 
 export default function BotpressChat() {
     return (
         <>
             <Script
-                src="https://cdn.botpress.cloud/webchat/v3.2/inject.js"
+                src={publicConfig.botpress.injectScriptUrl}
                 strategy="afterInteractive"
             />
             <Script
-                src="https://files.bpcontent.cloud/2025/07/16/15/20250716155644-MH80SNP6.js"
+                src={publicConfig.botpress.configScriptUrl}
                 strategy="afterInteractive"
             />
         </>
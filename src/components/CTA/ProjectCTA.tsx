@@ -1,4 +1,6 @@
 import Link from "next/link";
+import { EnquiryTypeEnum } from "@/lib/enum/enquiryType";
+import { routes } from "@/lib/routes";
 import { WobbleCard } from "../ui/wobble-card";
 
 const ProjectCTA = () => {
@@ -20,7 +22,10 @@ const ProjectCTA = () => {
             </p>
             <div className="mt-10">
               <Link
-                href="/contact#enquiry"
+                href={routes.enquiry({
+                  type: EnquiryTypeEnum.ColdRoomDesign,
+                  source: "/projects",
+                })}
                 className="group text-primary relative inline-flex items-center justify-center overflow-hidden rounded-md bg-white px-8 py-4 font-bold shadow-lg transition-all duration-300 hover:scale-105 hover:bg-gray-100 hover:shadow-xl"
               >
                 <span className="relative">Contact Us</span>
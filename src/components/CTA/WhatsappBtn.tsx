@@ -1,11 +1,10 @@
 "use client";
 
 import { motion } from "framer-motion";
-
-const whatsappNumber = process.env.NEXT_PUBLIC_WHATSAPP || '60177023282';
+import { publicConfig } from "@/lib/publicConfig";
 
 export default function WhatsAppBtn() {
-  const whatsappUrl = `https://wa.me/${whatsappNumber}`;
+  const whatsappUrl = publicConfig.whatsapp.url;
   return (
     <motion.a
       initial={{ opacity: 0, scale: 1 }}
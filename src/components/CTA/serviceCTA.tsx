@@ -4,6 +4,7 @@ import Link from "next/link";
 import { WobbleCard } from "../ui/wobble-card";
 import { ArrowRight } from "lucide-react";
 import { AnimatedDiv } from "../Animation";
+import { routes } from "@/lib/routes";
 
 const ServiceCTA = () => {
   return (
@@ -27,7 +28,7 @@ const ServiceCTA = () => {
               </p>
               <div className="mt-8 flex justify-center md:justify-start">
                 <Link
-                  href="/contact#enquiry"
+                  href={routes.enquiry({ source: "/services" })}
                   className="group bg-primary hover:bg-primary/90 relative inline-flex items-center justify-center overflow-hidden rounded-lg px-8 py-4 font-bold text-white shadow-lg transition-all duration-300 hover:scale-[1.03] hover:shadow-xl"
                 >
                   <span className="relative">Get Quote</span>
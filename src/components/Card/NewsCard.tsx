@@ -1,8 +1,8 @@
 "use client";
 import { formatDate } from "@/lib/helper/dateformatter";
+import { routes } from "@/lib/routes";
 import { News } from "@/types/news";
 import Link from "next/link";
-import slugify from "slugify";
 import SafeHtml from "../Common/SafeHtml";
 
 const NewsCard = ({ news }: { news: News }) => {
@@ -13,7 +13,7 @@ const NewsCard = ({ news }: { news: News }) => {
       ? imageUrls[0]
       : "/images/news/news.jpg";
 
-  const slug = `/news/${slugify(title, { lower: true })}-${news.id}`;
+  const slug = routes.news(news);
 
   return (
     <div className="group shadow-one hover:shadow-two dark:bg-dark dark:hover:shadow-gray-dark relative h-full overflow-hidden rounded-md bg-white duration-300">
@@ -1,7 +1,9 @@
 "use client";
 import { Products } from "@/types/products";
+import { routes } from "@/lib/routes";
 import Link from "next/link";
-import slugify from "slugify";
+import CompareButton from "../Compare/CompareButton";
+import AddToQuoteButton from "../QuoteBasket/AddToQuoteButton";
 import Image from "next/image"; // Using Next.js Image component for better performance
 
 const ProductCard = ({ product }: { product: Products }) => {
@@ -10,7 +12,7 @@ const ProductCard = ({ product }: { product: Products }) => {
   return (
     <div className="group shadow-one hover:shadow-two dark:bg-dark dark:hover:shadow-gray-dark relative h-full cursor-pointer overflow-hidden rounded-xs bg-white duration-300 transition-shadow">
       <Link
-        href={`/products/${slugify(product.name, { lower: true })}-${product.id}`}
+        href={routes.product(product)}
         className="relative block w-full"
       >
         {/* Image Section - Responsive */}
@@ -71,6 +73,10 @@ const ProductCard = ({ product }: { product: Products }) => {
           )}
         </div>
       </Link>
+      <div className="absolute top-2 left-2 z-10 flex gap-2">
+        <CompareButton product={product} variant="icon" />
+        <AddToQuoteButton product={product} />
+      </div>
     </div>
   );
 };
@@ -0,0 +1,63 @@
+import Link from "next/link";
+import { ApiError } from "@/api/apiError";
+
+const copy = {
+  validation: {
+    title: "We couldn't process this request",
+    description: "The link you followed contains invalid details.",
+  },
+  unavailable: {
+    title: "This content is temporarily unavailable",
+    description:
+      "We're having trouble reaching our servers right now. Please try again in a few minutes.",
+  },
+};
+
+const ApiErrorState = ({
+  error,
+  backHref = "/",
+  backLabel = "Back to Homepage",
+}: {
+  error: ApiError;
+  backHref?: string;
+  backLabel?: string;
+}) => {
+  const { title, description } =
+    error.kind === "validation" ? copy.validation : copy.unavailable;
+
+  return (
+    <section className="relative z-10 pt-16 pb-16 md:pb-20 lg:pb-28">
+      <div className="container">
+        <div className="-mx-4 flex flex-wrap">
+          <div className="w-full px-4">
+            <div className="mx-auto max-w-[530px] text-center">
+              <h3 className="mb-4 text-3xl font-bold text-black sm:text-4xl dark:text-white">
+                {title}
+              </h3>
+              <p className="text-body-color mb-6 text-base leading-relaxed font-medium sm:text-lg sm:leading-relaxed">
+                {description}
+              </p>
+              {error.kind === "validation" && error.errors.length > 0 && (
+                <ul className="text-body-color dark:text-body-color-dark mb-6 list-inside list-disc text-left text-sm">
+                  {error.errors.map((message, index) => (
+                    <li key={index}>{message}</li>
+                  ))}
+                </ul>
+              )}
+              <div className="mt-4">
+                <Link
+                  href={backHref}
+                  className="bg-primary shadow-signUp hover:text-primary rounded-md px-8 py-3 text-base font-bold text-white duration-300 hover:bg-white md:px-9 lg:px-8 xl:px-9"
+                >
+                  {backLabel}
+                </Link>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default ApiErrorState;
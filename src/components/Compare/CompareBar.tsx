@@ -0,0 +1,62 @@
+"use client";
+
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+import { X } from "lucide-react";
+import { MAX_COMPARE } from "@/lib/compare";
+import { routes } from "@/lib/routes";
+import { useCompare } from "./CompareProvider";
+
+/** Tray along the bottom of the screen listing the products picked for comparison */
+export default function CompareBar() {
+  const { items, remove, clear } = useCompare();
+  const pathname = usePathname();
+
+  if (items.length === 0 || pathname === "/products/compare") return null;
+
+  return (
+    <div className="dark:bg-gray-dark fixed inset-x-0 bottom-0 z-40 border-t border-gray-200 bg-white shadow-lg dark:border-white/10">
+      <div className="container flex flex-col gap-3 py-3 sm:flex-row sm:items-center">
+        <p className="shrink-0 text-sm font-medium text-black dark:text-white">
+          Compare ({items.length}/{MAX_COMPARE})
+        </p>
+        <ul className="flex flex-1 flex-wrap gap-2">
+          {items.map((item) => (
+            <li
+              key={item.id}
+              className="text-body-color dark:text-body-color-dark flex max-w-[220px] items-center gap-1 rounded-full bg-gray-100 py-1 pr-1 pl-3 text-xs dark:bg-gray-800"
+            >
+              <span className="truncate">{item.name}</span>
+              <button
+                type="button"
+                onClick={() => remove(item.id)}
+                aria-label={`Remove ${item.name} from comparison`}
+                className="shrink-0 cursor-pointer rounded-full p-1 hover:bg-gray-200 dark:hover:bg-gray-700"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </li>
+          ))}
+        </ul>
+        <div className="flex shrink-0 gap-2">
+          <button
+            type="button"
+            onClick={clear}
+            className="text-body-color hover:text-primary cursor-pointer px-3 py-2 text-sm"
+          >
+            Clear
+          </button>
+          <Link
+            href={routes.compareProducts(items.map((item) => item.id))}
+            aria-disabled={items.length < 2}
+            className={`bg-primary hover:bg-primary/90 rounded-md px-5 py-2 text-sm font-medium text-white ${
+              items.length < 2 ? "pointer-events-none opacity-50" : ""
+            }`}
+          >
+            Compare Now
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+"use client";
+
+import { Check, GitCompareArrows } from "lucide-react";
+import { MAX_COMPARE } from "@/lib/compare";
+import { cn } from "@/lib/utils";
+import { Products } from "@/types/products";
+import { useCompare } from "./CompareProvider";
+
+interface CompareButtonProps {
+  product: Products;
+  /** `icon` overlays a product card, `button` sits with the detail page actions */
+  variant?: "icon" | "button";
+  className?: string;
+}
+
+export default function CompareButton({
+  product,
+  variant = "button",
+  className,
+}: CompareButtonProps) {
+  const { isSelected, isFull, toggle } = useCompare();
+
+  if (product.id === undefined) return null;
+
+  const selected = isSelected(product.id);
+  const disabled = !selected && isFull;
+  const label = selected
+    ? "Remove from comparison"
+    : disabled
+      ? `You can compare up to ${MAX_COMPARE} products`
+      : "Add to comparison";
+  const Icon = selected ? Check : GitCompareArrows;
+
+  return (
+    <button
+      type="button"
+      onClick={() => toggle({ id: product.id!, name: product.name })}
+      disabled={disabled}
+      aria-pressed={selected}
+      title={label}
+      className={cn(
+        "inline-flex cursor-pointer items-center justify-center gap-2 font-medium transition-colors disabled:cursor-not-allowed disabled:opacity-50",
+        variant === "icon"
+          ? "h-9 w-9 rounded-full shadow-md"
+          : "w-full rounded-md border px-8 py-4",
+        selected
+          ? "bg-primary border-primary text-white"
+          : "border-primary text-primary hover:bg-primary/10 dark:bg-gray-dark bg-white",
+        className,
+      )}
+    >
+      <Icon className="h-4 w-4" />
+      {variant === "icon" ? (
+        <span className="sr-only">{label}</span>
+      ) : (
+        <span>{selected ? "Added to Compare" : "Compare"}</span>
+      )}
+    </button>
+  );
+}
@@ -0,0 +1,82 @@
+"use client";
+
+import { createContext, useCallback, useContext } from "react";
+import { MAX_COMPARE } from "@/lib/compare";
+import { useStoredState } from "@/lib/hooks/useStoredState";
+import { Products } from "@/types/products";
+
+const STORAGE_KEY = "compare-products";
+
+export type CompareItem = Required<Pick<Products, "id" | "name">>;
+
+interface CompareContextValue {
+  items: CompareItem[];
+  isFull: boolean;
+  isSelected: (id: number) => boolean;
+  /** Add the product, or remove it when it's already selected */
+  toggle: (item: CompareItem) => void;
+  remove: (id: number) => void;
+  clear: () => void;
+}
+
+const CompareContext = createContext<CompareContextValue>({
+  items: [],
+  isFull: false,
+  isSelected: () => false,
+  toggle: () => {},
+  remove: () => {},
+  clear: () => {},
+});
+
+export function CompareProvider({ children }: { children: React.ReactNode }) {
+  const [items, setItems] = useStoredState<CompareItem[]>(
+    STORAGE_KEY,
+    [],
+    (stored) =>
+      Array.isArray(stored) ? stored.slice(0, MAX_COMPARE) : undefined,
+  );
+
+  const toggle = useCallback(
+    (item: CompareItem) => {
+      setItems((current) =>
+        current.some((i) => i.id === item.id)
+          ? current.filter((i) => i.id !== item.id)
+          : current.length < MAX_COMPARE
+            ? [...current, { id: item.id, name: item.name }]
+            : current,
+      );
+    },
+    [setItems],
+  );
+
+  const remove = useCallback(
+    (id: number) => {
+      setItems((current) => current.filter((i) => i.id !== id));
+    },
+    [setItems],
+  );
+
+  const clear = useCallback(() => setItems([]), [setItems]);
+
+  const isSelected = useCallback(
+    (id: number) => items.some((i) => i.id === id),
+    [items],
+  );
+
+  return (
+    <CompareContext.Provider
+      value={{
+        items,
+        isFull: items.length >= MAX_COMPARE,
+        isSelected,
+        toggle,
+        remove,
+        clear,
+      }}
+    >
+      {children}
+    </CompareContext.Provider>
+  );
+}
+
+export const useCompare = () => useContext(CompareContext);
@@ -0,0 +1,148 @@
+import Image from "next/image";
+import Link from "next/link";
+import { X } from "lucide-react";
+import {
+  formatSpecValue,
+  groupSpecifications,
+} from "@/lib/helper/specifications";
+import { routes } from "@/lib/routes";
+import { ProductCategory, Products } from "@/types/products";
+import CopyLinkButton from "./CopyLinkButton";
+
+interface CompareTableProps {
+  products: Products[];
+  categories: ProductCategory[];
+}
+
+type Row = {
+  label: string;
+  render: (product: Products) => React.ReactNode;
+};
+
+/** One row per spec key found on any of the products, in group order */
+const specificationRows = (products: Products[]): Row[] => {
+  const seen = new Set<string>();
+
+  return groupSpecifications(products.flatMap((p) => p.specifications || []))
+    .flatMap((section) => section.specifications)
+    .filter((spec) => !seen.has(spec.key) && seen.add(spec.key))
+    .map((spec) => ({
+      label: spec.label,
+      render: (product) => {
+        const match = product.specifications?.find((s) => s.key === spec.key);
+        return match ? formatSpecValue(match) : "—";
+      },
+    }));
+};
+
+const CompareTable = ({ products, categories }: CompareTableProps) => {
+  const ids = products.map((p) => p.id!);
+  const categoryName = (product: Products) =>
+    categories.find((c) => c.id === product.productCategoryId)?.name || "—";
+
+  const rows: Row[] = [
+    {
+      label: "Manufacturer",
+      render: (product) => product.manufacturer || "—",
+    },
+    { label: "Category", render: categoryName },
+    ...specificationRows(products),
+    {
+      label: "Details",
+      render: (product) =>
+        product.description ? (
+          <div
+            className="prose dark:prose-invert max-w-none text-sm"
+            dangerouslySetInnerHTML={{ __html: product.description }}
+          />
+        ) : (
+          <span className="italic">No description available</span>
+        ),
+    },
+  ];
+
+  return (
+    <section className="pt-[50px] pb-[120px]">
+      <div className="container">
+        <div className="mb-6 flex flex-wrap items-center justify-between gap-4">
+          <p className="text-body-color dark:text-body-color-dark text-base">
+            Comparing {products.length} products. Share this page to send the
+            same comparison to a colleague.
+          </p>
+          <CopyLinkButton />
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full min-w-[640px] table-fixed border-collapse text-left">
+            <thead>
+              <tr>
+                <th className="w-40 p-3" />
+                {products.map((product) => (
+                  <th
+                    key={product.id}
+                    scope="col"
+                    className="border-b border-gray-200 p-3 align-top dark:border-white/10"
+                  >
+                    <div className="relative mb-3 aspect-[4/3] w-full overflow-hidden rounded-xs bg-gray-100 dark:bg-gray-800">
+                      <Image
+                        src={
+                          product.imageUrls?.[0] ||
+                          "/images/product/product.jpg"
+                        }
+                        alt={product.name}
+                        fill
+                        unoptimized
+                        className="object-cover"
+                        sizes="25vw"
+                      />
+                      <Link
+                        href={routes.compareProducts(
+                          ids.filter((id) => id !== product.id),
+                        )}
+                        aria-label={`Remove ${product.name} from comparison`}
+                        className="absolute top-2 right-2 rounded-full bg-white/90 p-1 text-gray-700 shadow hover:text-red-600"
+                      >
+                        <X className="h-4 w-4" />
+                      </Link>
+                    </div>
+                    <Link
+                      href={routes.product(product)}
+                      className="hover:text-primary text-base font-bold text-black dark:text-white"
+                    >
+                      {product.name}
+                    </Link>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr
+                  key={row.label}
+                  className="border-b border-gray-200 dark:border-white/10"
+                >
+                  <th
+                    scope="row"
+                    className="p-3 align-top text-sm font-semibold text-gray-900 dark:text-white"
+                  >
+                    {row.label}
+                  </th>
+                  {products.map((product) => (
+                    <td
+                      key={product.id}
+                      className="text-body-color dark:text-body-color-dark p-3 align-top text-sm"
+                    >
+                      {row.render(product)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default CompareTable;
@@ -1,24 +1,123 @@
 "use client";
 
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import toast from "react-hot-toast";
 import { EnquiryTypeEnum, EnquiryTypeMap } from "@/lib/enum/enquiryType";
-import { addEnquiry } from "@/api/api";
+import { submitEnquiry } from "@/api/api";
+import { isApiError } from "@/api/apiError";
 import { AnimatedButton, AnimatedDiv } from "../Animation";
+import FieldError, { errorId } from "./FieldError";
+import HoneypotField from "./HoneypotField";
+import Link from "next/link";
+import { Calculator, Loader2, PencilRuler, X } from "lucide-react";
+import { buildBillOfMaterials } from "@/lib/calculators/coldRoomLayout";
+import {
+  ENQUIRY_DETAIL_FIELDS,
+  EnquiryDetailField,
+  EnquiryDetailValues,
+  toEnquiryDetails,
+} from "@/lib/enquiry/details";
+import {
+  FieldErrors,
+  issuesToFieldErrors,
+  parseApiFieldErrors,
+} from "@/lib/enquiry/errors";
+import { enquirySubmissionSchema } from "@/lib/enquiry/schema";
+import { normalisePhone } from "@/lib/helper/phone";
+import {
+  LoadInputs,
+  PRODUCT_TYPES,
+  estimateRefrigerationLoad,
+  toLoadQuery,
+} from "@/lib/calculators/refrigerationLoad";
+import { useEnquiryFormToken } from "@/lib/hooks/useEnquiryFormToken";
+import { useRoomPlan } from "@/lib/hooks/useRoomPlan";
+import { routes } from "@/lib/routes";
+import {
+  EnquiryContext,
+  EnquiryLoadEstimate,
+  EnquiryRoomLayout,
+  EnquirySubmission,
+} from "@/types/enquiry";
+import { Products } from "@/types/products";
 
-const EnquiryForm: React.FC = () => {
+interface EnquiryFormProps {
+  /** Preselection from the link that brought the visitor here */
+  context?: EnquiryContext;
+  /** The product behind `context.productId`, when it could be loaded */
+  product?: Pick<Products, "id" | "name">;
+}
+
+const toLoadEstimate = (inputs?: LoadInputs): EnquiryLoadEstimate | undefined =>
+  inputs && { inputs, ...estimateRefrigerationLoad(inputs) };
+
+const EnquiryForm = ({ context = {}, product }: EnquiryFormProps) => {
+  const initialType = context.type ?? EnquiryTypeEnum.ProductEnquiry;
   const [formData, setFormData] = useState({
     name: ``,
     companyName: ``,
     email: ``,
     phone: ``,
-    type: EnquiryTypeEnum.ProductEnquiry,
+    type: initialType,
     message: ``,
-    roomSize: ``,
-    temperature: ``,
-    address: ``,
-    preferredDateTime: ``,
   });
+  const [details, setDetails] = useState<EnquiryDetailValues>({});
+  const [website, setWebsite] = useState(``);
+  const [referencedProduct, setReferencedProduct] = useState(product);
+  const [projectRef, setProjectRef] = useState(context.projectRef);
+  const [source, setSource] = useState(context.source);
+  const [loadEstimate, setLoadEstimate] = useState(() =>
+    toLoadEstimate(context.loadInputs),
+  );
+  const [attachLayout, setAttachLayout] = useState(!!context.attachLayout);
+  const [plan] = useRoomPlan();
+  const layout: EnquiryRoomLayout | undefined =
+    attachLayout && plan.segments.length > 0
+      ? { plan, billOfMaterials: buildBillOfMaterials(plan) }
+      : undefined;
+  const [errors, setErrors] = useState<FieldErrors>({});
+  const [formErrors, setFormErrors] = useState<string[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const [formToken, refreshFormToken] = useEnquiryFormToken();
+  const formRef = useRef<HTMLFormElement>(null);
+  const detailFields = ENQUIRY_DETAIL_FIELDS[
+    formData.type
+  ] as EnquiryDetailField[];
+
+  // Without an explicit source, record the page the visitor came from
+  useEffect(() => {
+    if (context.source || !document.referrer) return;
+    const referrer = new URL(document.referrer);
+    if (referrer.origin === window.location.origin) {
+      setSource(referrer.pathname);
+    }
+  }, [context.source]);
+
+  // Links within the contact page change the query without remounting the form
+  useEffect(() => {
+    const inputs = context.loadInputs;
+    setFormData((current) => ({ ...current, type: initialType }));
+    // An estimate already holds the room, so don't ask for it twice
+    if (inputs) {
+      setDetails((current) => ({
+        ...current,
+        roomSize: `${inputs.length}m x ${inputs.width}m x ${inputs.height}m`,
+        temperature: String(inputs.setPoint),
+      }));
+    }
+    setReferencedProduct(product);
+    setProjectRef(context.projectRef);
+    setLoadEstimate(toLoadEstimate(inputs));
+    setAttachLayout(!!context.attachLayout);
+    if (context.source) setSource(context.source);
+  }, [
+    initialType,
+    product,
+    context.projectRef,
+    context.source,
+    context.loadInputs,
+    context.attachLayout,
+  ]);
 
   const handleChange = (
     e: React.ChangeEvent<
@@ -29,46 +128,118 @@ const EnquiryForm: React.FC = () => {
 
     if (name === `type`) {
       const selectedID = Number(value);
-      setFormData({
-        ...formData,
-        type: selectedID,
-        roomSize: ``,
-        temperature: ``,
-        address: ``,
-        preferredDateTime: ``,
-      });
+      setFormData({ ...formData, type: selectedID });
+      setDetails({});
+      setErrors({});
     } else {
       setFormData({ ...formData, [name]: value });
+      clearError(name);
     }
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  const handleDetailChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>,
+  ) => {
+    setDetails({ ...details, [e.target.name]: e.target.value });
+    clearError(`details.${e.target.name}`);
+  };
 
-    const messageFields = {
-      "Room Size": formData.roomSize,
-      Temperature: formData.temperature,
-      Address: formData.address,
-      "Preferred Date & Time": formData.preferredDateTime,
-      Message: formData.message,
-    };
+  const clearError = (key: string) =>
+    setErrors((current) => {
+      if (!(key in current)) return current;
+      const next = { ...current };
+      delete next[key];
+      return next;
+    });
 
-    const consolidatedMessage = Object.entries(messageFields)
-      .filter(([_, value]) => value && value.trim() !== ``)
-      .map(([label, value]) => `${label}: ${value}`)
-      .join(`\n`);
+  const errorProps = (key: string) => ({
+    "aria-invalid": key in errors,
+    "aria-describedby": key in errors ? errorId(key) : undefined,
+  });
 
-    const requestBody = {
+  const buildRequestBody = () =>
+    ({
       name: formData.name,
       companyName: formData.companyName,
       email: formData.email,
       phone: formData.phone,
       type: formData.type,
-      message: consolidatedMessage,
-    };
-    const response = await addEnquiry(requestBody);
+      message: formData.message,
+      details: {
+        ...toEnquiryDetails(formData.type, details),
+        // Estimator and planner results only travel with cold room designs
+        ...(formData.type === EnquiryTypeEnum.ColdRoomDesign && {
+          loadEstimate,
+          layout,
+        }),
+      },
+      productId: referencedProduct?.id,
+      projectRef,
+      source,
+      website,
+      formToken,
+    }) as EnquirySubmission;
 
-    if (response.succeeded === true) {
+  /** Check the form against the same schema the enquiry route uses */
+  const validate = () => {
+    const result = enquirySubmissionSchema.safeParse(buildRequestBody());
+    return result.success
+      ? { data: result.data as EnquirySubmission, fieldErrors: {} }
+      : {
+          data: undefined,
+          fieldErrors: issuesToFieldErrors(result.error.issues),
+        };
+  };
+
+  /** Show a field's error once the visitor leaves it, but not for untouched fields */
+  const handleBlur = (key: string, value: string) => {
+    if (!value.trim()) return;
+    const fieldError = validate().fieldErrors[key];
+    if (fieldError) setErrors((current) => ({ ...current, [key]: fieldError }));
+  };
+
+  const handlePhoneBlur = () => {
+    const phone = normalisePhone(formData.phone);
+    if (phone) setFormData({ ...formData, phone });
+    else handleBlur(`phone`, formData.phone);
+  };
+
+  const showErrors = (fieldErrors: FieldErrors, otherErrors: string[] = []) => {
+    // Errors for anything without an input of its own are listed by the button
+    const inputKeys = Array.from(formRef.current?.elements ?? [])
+      .map((element) => (element as HTMLElement).dataset.errorKey)
+      .filter(Boolean);
+    setErrors(fieldErrors);
+    setFormErrors([
+      ...Object.entries(fieldErrors)
+        .filter(([key]) => !inputKeys.includes(key))
+        .map(([, message]) => message),
+      ...otherErrors,
+    ]);
+
+    const firstInvalid = Array.from(formRef.current?.elements ?? []).find(
+      (element) => {
+        const key = (element as HTMLElement).dataset.errorKey;
+        return key !== undefined && key in fieldErrors;
+      },
+    );
+    (firstInvalid as HTMLElement | undefined)?.focus();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (submitting) return;
+
+    const { data, fieldErrors } = validate();
+    if (!data) {
+      showErrors(fieldErrors);
+      toast.error(`Please check the highlighted fields.`);
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await submitEnquiry(data);
       toast.success(`Your enquiry has been submitted successfully!`);
       setFormData({
         name: ``,
@@ -77,13 +248,27 @@ const EnquiryForm: React.FC = () => {
         phone: ``,
         message: ``,
         type: EnquiryTypeEnum.ProductEnquiry,
-        roomSize: ``,
-        temperature: ``,
-        address: ``,
-        preferredDateTime: ``,
       });
-    } else {
-      toast.error(`Error submitting enquiry, please try again.`);
+      setDetails({});
+      setErrors({});
+      setFormErrors([]);
+      setReferencedProduct(undefined);
+      setProjectRef(undefined);
+      setLoadEstimate(undefined);
+      setAttachLayout(false);
+    } catch (error) {
+      if (isApiError(error) && error.errors.length > 0) {
+        const { fieldErrors, otherErrors } = parseApiFieldErrors(error.errors);
+        showErrors(fieldErrors, otherErrors);
+      }
+      toast.error(
+        isApiError(error) && error.status !== 0
+          ? error.message
+          : `Error submitting enquiry, please try again.`,
+      );
+    } finally {
+      setSubmitting(false);
+      refreshFormToken();
     }
   };
 
@@ -115,7 +300,8 @@ const EnquiryForm: React.FC = () => {
                 Please fill out the form below and our team will get back to you
                 soon.
               </p>
-              <form onSubmit={handleSubmit}>
+              <form ref={formRef} onSubmit={handleSubmit} noValidate>
+                <HoneypotField value={website} onChange={setWebsite} />
                 <div className="-mx-4 flex flex-wrap">
                   {/* Name Field */}
                   <div className="w-full px-4 md:w-1/2">
@@ -132,10 +318,14 @@ const EnquiryForm: React.FC = () => {
                         name="name"
                         value={formData.name}
                         onChange={handleChange}
+                        onBlur={() => handleBlur(`name`, formData.name)}
+                        data-error-key="name"
+                        {...errorProps(`name`)}
                         placeholder="Enter your name"
                         required
-                        className="border-stroke text-body-color focus:border-primary dark:text-body-color-dark dark:shadow-two dark:focus:border-primary w-full rounded-xs border bg-[#f8f8f8] px-6 py-3 text-base outline-hidden dark:border-transparent dark:bg-[#2C303B] dark:focus:shadow-none"
+                        className="border-stroke text-body-color focus:border-primary dark:text-body-color-dark dark:shadow-two dark:focus:border-primary w-full rounded-xs border bg-[#f8f8f8] px-6 py-3 text-base outline-hidden aria-invalid:border-red-500 dark:border-transparent dark:bg-[#2C303B] dark:focus:shadow-none dark:aria-invalid:border-red-500"
                       />
+                      <FieldError field="name" errors={errors} />
                     </div>
                   </div>
 
@@ -154,10 +344,16 @@ const EnquiryForm: React.FC = () => {
                         name="companyName"
                         value={formData.companyName}
                         onChange={handleChange}
+                        onBlur={() =>
+                          handleBlur(`companyName`, formData.companyName)
+                        }
+                        data-error-key="companyName"
+                        {...errorProps(`companyName`)}
                         placeholder="Enter company name"
                         required
-                        className="border-stroke text-body-color focus:border-primary dark:text-body-color-dark dark:shadow-two dark:focus:border-primary w-full rounded-xs border bg-[#f8f8f8] px-6 py-3 text-base outline-hidden dark:border-transparent dark:bg-[#2C303B] dark:focus:shadow-none"
+                        className="border-stroke text-body-color focus:border-primary dark:text-body-color-dark dark:shadow-two dark:focus:border-primary w-full rounded-xs border bg-[#f8f8f8] px-6 py-3 text-base outline-hidden aria-invalid:border-red-500 dark:border-transparent dark:bg-[#2C303B] dark:focus:shadow-none dark:aria-invalid:border-red-500"
                       />
+                      <FieldError field="companyName" errors={errors} />
                     </div>
                   </div>
 
@@ -176,10 +372,14 @@ const EnquiryForm: React.FC = () => {
                         name="email"
                         value={formData.email}
                         onChange={handleChange}
+                        onBlur={() => handleBlur(`email`, formData.email)}
+                        data-error-key="email"
+                        {...errorProps(`email`)}
                         placeholder="Enter your email"
                         required
-                        className="border-stroke text-body-color focus:border-primary dark:text-body-color-dark dark:shadow-two dark:focus:border-primary w-full rounded-xs border bg-[#f8f8f8] px-6 py-3 text-base outline-hidden dark:border-transparent dark:bg-[#2C303B] dark:focus:shadow-none"
+                        className="border-stroke text-body-color focus:border-primary dark:text-body-color-dark dark:shadow-two dark:focus:border-primary w-full rounded-xs border bg-[#f8f8f8] px-6 py-3 text-base outline-hidden aria-invalid:border-red-500 dark:border-transparent dark:bg-[#2C303B] dark:focus:shadow-none dark:aria-invalid:border-red-500"
                       />
+                      <FieldError field="email" errors={errors} />
                     </div>
                   </div>
 
@@ -198,12 +398,48 @@ const EnquiryForm: React.FC = () => {
                         name="phone"
                         value={formData.phone}
                         onChange={handleChange}
+                        onBlur={handlePhoneBlur}
+                        data-error-key="phone"
+                        {...errorProps(`phone`)}
                         placeholder="Enter your phone number"
-                        className="border-stroke text-body-color focus:border-primary dark:text-body-color-dark dark:shadow-two dark:focus:border-primary w-full rounded-xs border bg-[#f8f8f8] px-6 py-3 text-base outline-hidden dark:border-transparent dark:bg-[#2C303B] dark:focus:shadow-none"
+                        className="border-stroke text-body-color focus:border-primary dark:text-body-color-dark dark:shadow-two dark:focus:border-primary w-full rounded-xs border bg-[#f8f8f8] px-6 py-3 text-base outline-hidden aria-invalid:border-red-500 dark:border-transparent dark:bg-[#2C303B] dark:focus:shadow-none dark:aria-invalid:border-red-500"
                       />
+                      <FieldError field="phone" errors={errors} />
                     </div>
                   </div>
 
+                  {/* Referenced Product & Project */}
+                  {(referencedProduct || projectRef) && (
+                    <div className="mb-8 flex w-full flex-wrap gap-2 px-4">
+                      {referencedProduct && (
+                        <span className="bg-primary/10 text-primary inline-flex items-center gap-2 rounded-full py-1 pr-1 pl-4 text-sm font-medium">
+                          Product: {referencedProduct.name}
+                          <button
+                            type="button"
+                            onClick={() => setReferencedProduct(undefined)}
+                            aria-label="Remove product from enquiry"
+                            className="hover:bg-primary/20 cursor-pointer rounded-full p-1"
+                          >
+                            <X className="h-3 w-3" />
+                          </button>
+                        </span>
+                      )}
+                      {projectRef && (
+                        <span className="bg-primary/10 text-primary inline-flex items-center gap-2 rounded-full py-1 pr-1 pl-4 text-sm font-medium">
+                          Project: {projectRef}
+                          <button
+                            type="button"
+                            onClick={() => setProjectRef(undefined)}
+                            aria-label="Remove project reference from enquiry"
+                            className="hover:bg-primary/20 cursor-pointer rounded-full p-1"
+                          >
+                            <X className="h-3 w-3" />
+                          </button>
+                        </span>
+                      )}
+                    </div>
+                  )}
+
                   {/* Enquiry Type Dropdown */}
                   <div className="w-full px-4">
                     <div className="mb-8">
@@ -218,7 +454,9 @@ const EnquiryForm: React.FC = () => {
                         name="type"
                         value={formData.type}
                         onChange={handleChange}
-                        className="border-stroke text-body-color focus:border-primary dark:text-body-color-dark dark:shadow-two dark:focus:border-primary w-full rounded-xs border bg-[#f8f8f8] px-6 py-3 text-base outline-hidden dark:border-transparent dark:bg-[#2C303B] dark:focus:shadow-none"
+                        data-error-key="type"
+                        {...errorProps(`type`)}
+                        className="border-stroke text-body-color focus:border-primary dark:text-body-color-dark dark:shadow-two dark:focus:border-primary w-full rounded-xs border bg-[#f8f8f8] px-6 py-3 text-base outline-hidden aria-invalid:border-red-500 dark:border-transparent dark:bg-[#2C303B] dark:focus:shadow-none dark:aria-invalid:border-red-500"
                       >
                         {Object.entries(EnquiryTypeMap).map(([id, label]) => (
                           <option key={id} value={id}>
@@ -226,99 +464,176 @@ const EnquiryForm: React.FC = () => {
                           </option>
                         ))}
                       </select>
+                      <FieldError field="type" errors={errors} />
                     </div>
                   </div>
 
-                  {/* Conditional Fields for Cold Room Design */}
-                  {formData.type === EnquiryTypeEnum.ColdRoomDesign && (
-                    <>
-                      <div className="w-full px-4 md:w-1/2">
-                        <div className="mb-8">
-                          <label
-                            htmlFor="roomSize"
-                            className="text-dark mb-3 block text-sm font-medium dark:text-white"
-                          >
-                            Room Size (Length x Width x Height)
-                          </label>
-                          <input
-                            type="text"
-                            id="roomSize"
-                            name="roomSize"
-                            value={formData.roomSize}
-                            onChange={handleChange}
-                            placeholder="e.g. 10m x 5m x 3m"
-                            required
-                            className="border-stroke text-body-color focus:border-primary dark:text-body-color-dark dark:shadow-two dark:focus:border-primary w-full rounded-xs border bg-[#f8f8f8] px-6 py-3 text-base outline-hidden dark:border-transparent dark:bg-[#2C303B] dark:focus:shadow-none"
+                  {/* Details for the selected enquiry type */}
+                  {detailFields.map((field) => (
+                    <div
+                      key={field.name}
+                      className={`w-full px-4 ${field.half ? "md:w-1/2" : ""}`}
+                    >
+                      <div className="mb-8">
+                        <label
+                          htmlFor={field.name}
+                          className="text-dark mb-3 block text-sm font-medium dark:text-white"
+                        >
+                          {field.label}
+                        </label>
+                        {field.input === "textarea" ? (
+                          <textarea
+                            id={field.name}
+                            name={field.name}
+                            rows={3}
+                            value={details[field.name] ?? ``}
+                            onChange={handleDetailChange}
+                            onBlur={() =>
+                              handleBlur(
+                                `details.${field.name}`,
+                                details[field.name] ?? ``,
+                              )
+                            }
+                            data-error-key={`details.${field.name}`}
+                            {...errorProps(`details.${field.name}`)}
+                            placeholder={field.placeholder}
+                            required={field.required}
+                            className="border-stroke text-body-color focus:border-primary dark:text-body-color-dark dark:shadow-two dark:focus:border-primary w-full resize-none rounded-xs border bg-[#f8f8f8] px-6 py-3 text-base outline-hidden aria-invalid:border-red-500 dark:border-transparent dark:bg-[#2C303B] dark:focus:shadow-none dark:aria-invalid:border-red-500"
                           />
-                        </div>
-                      </div>
-
-                      <div className="w-full px-4 md:w-1/2">
-                        <div className="mb-8">
-                          <label
-                            htmlFor="temperature"
-                            className="text-dark mb-3 block text-sm font-medium dark:text-white"
-                          >
-                            Temperature (°C)
-                          </label>
+                        ) : (
                           <input
-                            type="number"
-                            id="temperature"
-                            name="temperature"
-                            value={formData.temperature}
-                            onChange={handleChange}
-                            placeholder="e.g. -18"
-                            required
-                            className="border-stroke text-body-color focus:border-primary dark:text-body-color-dark dark:shadow-two dark:focus:border-primary w-full rounded-xs border bg-[#f8f8f8] px-6 py-3 text-base outline-hidden dark:border-transparent dark:bg-[#2C303B] dark:focus:shadow-none"
+                            type={field.input}
+                            id={field.name}
+                            name={field.name}
+                            value={details[field.name] ?? ``}
+                            onChange={handleDetailChange}
+                            onBlur={() =>
+                              handleBlur(
+                                `details.${field.name}`,
+                                details[field.name] ?? ``,
+                              )
+                            }
+                            data-error-key={`details.${field.name}`}
+                            {...errorProps(`details.${field.name}`)}
+                            placeholder={field.placeholder}
+                            required={field.required}
+                            className="border-stroke text-body-color focus:border-primary dark:text-body-color-dark dark:shadow-two dark:focus:border-primary w-full rounded-xs border bg-[#f8f8f8] px-6 py-3 text-base outline-hidden aria-invalid:border-red-500 dark:border-transparent dark:bg-[#2C303B] dark:focus:shadow-none dark:aria-invalid:border-red-500"
                           />
-                        </div>
+                        )}
+                        <FieldError
+                          field={`details.${field.name}`}
+                          errors={errors}
+                        />
                       </div>
-                    </>
-                  )}
+                    </div>
+                  ))}
 
-                  {/* Conditional Fields for Consultancy & Site Survey */}
-                  {formData.type ===
-                    EnquiryTypeEnum.ConsultancyAndSiteSurvey && (
+                  {/* Estimator and Planner Attachments for Cold Room Design */}
+                  {formData.type === EnquiryTypeEnum.ColdRoomDesign && (
                     <>
-                      <div className="w-full px-4">
-                        <div className="mb-8">
-                          <label
-                            htmlFor="address"
-                            className="text-dark mb-3 block text-sm font-medium dark:text-white"
+                      {/* Refrigeration Load Estimate */}
+                      <div className="mb-8 w-full px-4">
+                        {loadEstimate ? (
+                          <div className="border-primary flex items-start justify-between gap-4 rounded-xs border-l-4 bg-gray-100 px-6 py-4 dark:bg-gray-800">
+                            <div>
+                              <p className="font-medium text-black dark:text-white">
+                                Estimated refrigeration load:{" "}
+                                {loadEstimate.totalKw.toFixed(1)} kW
+                              </p>
+                              <p className="text-body-color dark:text-body-color-dark text-sm">
+                                {
+                                  PRODUCT_TYPES[loadEstimate.inputs.productType]
+                                    .label
+                                }
+                                , {loadEstimate.inputs.dailyThroughput} kg/day,{" "}
+                                {loadEstimate.inputs.doorOpenings} door
+                                openings/day, {loadEstimate.inputs.ambientTemp}{" "}
+                                °C ambient.{" "}
+                                <Link
+                                  href={routes.refrigerationLoadEstimator(
+                                    toLoadQuery(loadEstimate.inputs),
+                                  )}
+                                  className="text-primary hover:underline"
+                                >
+                                  Edit estimate
+                                </Link>
+                              </p>
+                            </div>
+                            <button
+                              type="button"
+                              onClick={() => setLoadEstimate(undefined)}
+                              aria-label="Remove load estimate from enquiry"
+                              className="hover:bg-primary/20 text-primary cursor-pointer rounded-full p-1"
+                            >
+                              <X className="h-4 w-4" />
+                            </button>
+                          </div>
+                        ) : (
+                          <Link
+                            href={routes.refrigerationLoadEstimator()}
+                            className="text-primary inline-flex items-center gap-2 text-sm font-medium hover:underline"
                           >
-                            Address
-                          </label>
-                          <textarea
-                            id="address"
-                            name="address"
-                            rows={3}
-                            value={formData.address}
-                            onChange={handleChange}
-                            placeholder="Enter the site address"
-                            required
-                            className="border-stroke text-body-color focus:border-primary dark:text-body-color-dark dark:shadow-two dark:focus:border-primary w-full resize-none rounded-xs border bg-[#f8f8f8] px-6 py-3 text-base outline-hidden dark:border-transparent dark:bg-[#2C303B] dark:focus:shadow-none"
-                          />
-                        </div>
+                            <Calculator className="h-4 w-4" />
+                            Not sure what capacity you need? Estimate the
+                            refrigeration load
+                          </Link>
+                        )}
                       </div>
 
-                      <div className="w-full px-4">
-                        <div className="mb-8">
-                          <label
-                            htmlFor="preferredDateTime"
-                            className="text-dark mb-3 block text-sm font-medium dark:text-white"
+                      {/* Layout Planner Drawing */}
+                      <div className="mb-8 w-full px-4">
+                        {layout ? (
+                          <div className="border-primary flex items-start justify-between gap-4 rounded-xs border-l-4 bg-gray-100 px-6 py-4 dark:bg-gray-800">
+                            <div>
+                              <p className="font-medium text-black dark:text-white">
+                                Room layout:{" "}
+                                {layout.billOfMaterials.floorArea.toFixed(1)} m²
+                                floor area
+                              </p>
+                              <p className="text-body-color dark:text-body-color-dark text-sm">
+                                {layout.billOfMaterials.lines
+                                  .filter((line) => line.unit === "pcs")
+                                  .map(
+                                    (line) =>
+                                      `${line.quantity} x ${line.description}`,
+                                  )
+                                  .join(", ")}
+                                .{" "}
+                                <Link
+                                  href={routes.layoutPlanner()}
+                                  className="text-primary hover:underline"
+                                >
+                                  Edit layout
+                                </Link>
+                              </p>
+                            </div>
+                            <button
+                              type="button"
+                              onClick={() => setAttachLayout(false)}
+                              aria-label="Remove room layout from enquiry"
+                              className="hover:bg-primary/20 text-primary cursor-pointer rounded-full p-1"
+                            >
+                              <X className="h-4 w-4" />
+                            </button>
+                          </div>
+                        ) : plan.segments.length > 0 ? (
+                          <button
+                            type="button"
+                            onClick={() => setAttachLayout(true)}
+                            className="text-primary inline-flex cursor-pointer items-center gap-2 text-sm font-medium hover:underline"
                           >
-                            Preferred Date & Time
-                          </label>
-                          <input
-                            type="datetime-local"
-                            id="preferredDateTime"
-                            name="preferredDateTime"
-                            value={formData.preferredDateTime}
-                            onChange={handleChange}
-                            required
-                            className="border-stroke text-body-color focus:border-primary dark:text-body-color-dark dark:shadow-two dark:focus:border-primary w-full rounded-xs border bg-[#f8f8f8] px-6 py-3 text-base outline-hidden dark:border-transparent dark:bg-[#2C303B] dark:focus:shadow-none"
-                          />
-                        </div>
+                            <PencilRuler className="h-4 w-4" />
+                            Attach the room layout saved in the layout planner
+                          </button>
+                        ) : (
+                          <Link
+                            href={routes.layoutPlanner()}
+                            className="text-primary inline-flex items-center gap-2 text-sm font-medium hover:underline"
+                          >
+                            <PencilRuler className="h-4 w-4" />
+                            Sketch your room and its doors in the layout planner
+                          </Link>
+                        )}
                       </div>
                     </>
                   )}
@@ -338,21 +653,41 @@ const EnquiryForm: React.FC = () => {
                         rows={5}
                         value={formData.message}
                         onChange={handleChange}
+                        onBlur={() => handleBlur(`message`, formData.message)}
+                        data-error-key="message"
+                        {...errorProps(`message`)}
                         placeholder="Your message"
                         required
-                        className="border-stroke text-body-color focus:border-primary dark:text-body-color-dark dark:shadow-two dark:focus:border-primary w-full resize-none rounded-xs border bg-[#f8f8f8] px-6 py-3 text-base outline-hidden dark:border-transparent dark:bg-[#2C303B] dark:focus:shadow-none"
+                        className="border-stroke text-body-color focus:border-primary dark:text-body-color-dark dark:shadow-two dark:focus:border-primary w-full resize-none rounded-xs border bg-[#f8f8f8] px-6 py-3 text-base outline-hidden aria-invalid:border-red-500 dark:border-transparent dark:bg-[#2C303B] dark:focus:shadow-none dark:aria-invalid:border-red-500"
                       />
+                      <FieldError field="message" errors={errors} />
                     </div>
                   </div>
 
+                  {/* Errors Without a Field of Their Own */}
+                  {formErrors.length > 0 && (
+                    <div role="alert" className="mb-8 w-full px-4">
+                      <ul className="list-inside list-disc rounded-xs bg-red-50 px-6 py-4 text-sm text-red-600 dark:bg-red-900/20">
+                        {formErrors.map((error) => (
+                          <li key={error}>{error}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
                   {/* Submit Button */}
                   <div className="w-full px-4 text-center">
                     <AnimatedButton
                       variant="slideUp"
                       type="submit"
-                      className="bg-primary shadow-submit hover:bg-primary/90 dark:shadow-submit-dark cursor-pointer rounded-md px-9 py-4 text-base font-medium text-white"
+                      disabled={submitting}
+                      aria-busy={submitting}
+                      className="bg-primary shadow-submit hover:bg-primary/90 dark:shadow-submit-dark inline-flex cursor-pointer items-center justify-center gap-2 rounded-md px-9 py-4 text-base font-medium text-white disabled:cursor-not-allowed disabled:opacity-70"
                     >
-                      Submit Enquiry
+                      {submitting && (
+                        <Loader2 className="h-5 w-5 animate-spin" />
+                      )}
+                      {submitting ? `Submitting...` : `Submit Enquiry`}
                     </AnimatedButton>
                   </div>
                 </div>
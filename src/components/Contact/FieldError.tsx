@@ -0,0 +1,23 @@
+import { FieldErrors } from "@/lib/enquiry/errors";
+
+/**
+ * Id of the message shown under a field, e.g. `details-roomSize-error`.
+ * `prefix` keeps ids unique when two forms share a page.
+ */
+export const errorId = (key: string, prefix = "") =>
+  `${prefix}${key.replace(/\./g, "-")}-error`;
+
+interface FieldErrorProps {
+  field: string;
+  errors: FieldErrors;
+  idPrefix?: string;
+}
+
+const FieldError = ({ field, errors, idPrefix }: FieldErrorProps) =>
+  errors[field] ? (
+    <p id={errorId(field, idPrefix)} className="mt-2 text-sm text-red-600">
+      {errors[field]}
+    </p>
+  ) : null;
+
+export default FieldError;
@@ -0,0 +1,22 @@
+interface HoneypotFieldProps {
+  value: string;
+  onChange: (value: string) => void;
+}
+
+/** Hidden from people but filled in by most bots, the enquiry route drops those */
+const HoneypotField = ({ value, onChange }: HoneypotFieldProps) => (
+  <div className="absolute -left-[9999px]" aria-hidden="true">
+    <label htmlFor="website">Website</label>
+    <input
+      type="text"
+      id="website"
+      name="website"
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      tabIndex={-1}
+      autoComplete="off"
+    />
+  </div>
+);
+
+export default HoneypotField;
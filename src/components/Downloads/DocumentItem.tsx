@@ -0,0 +1,67 @@
+import Link from "next/link";
+import { Download, FileText } from "lucide-react";
+import { DocumentTypeMap } from "@/lib/enum/documentType";
+import {
+  DocumentEntry,
+  formatFileSize,
+  formatLanguage,
+} from "@/lib/helper/documents";
+import { routes } from "@/lib/routes";
+import { ProductDocument } from "@/types/products";
+
+interface DocumentItemProps {
+  document: ProductDocument | DocumentEntry;
+}
+
+/** One downloadable file, listing the products it covers when it has them */
+const DocumentItem = ({ document }: DocumentItemProps) => {
+  const details = [
+    DocumentTypeMap[document.type],
+    formatLanguage(document.language),
+    formatFileSize(document.fileSize),
+  ].filter(Boolean);
+  const products = "products" in document ? document.products : [];
+
+  return (
+    <li className="flex items-start gap-4 border-t border-gray-200 px-4 py-3 first:border-t-0 dark:border-white/10">
+      <FileText className="text-primary mt-0.5 h-5 w-5 shrink-0" />
+      <div className="min-w-0 flex-1">
+        <p className="font-medium text-gray-900 dark:text-white">
+          {document.title}
+        </p>
+        <p className="text-body-color dark:text-body-color-dark text-sm">
+          {details.join(" · ")}
+        </p>
+        {products.length > 0 && (
+          <p className="text-body-color dark:text-body-color-dark mt-1 text-sm">
+            For{" "}
+            {products.map((product, index) => (
+              <span key={product.id}>
+                {index > 0 && ", "}
+                <Link
+                  href={routes.product(product)}
+                  className="hover:text-primary underline"
+                >
+                  {product.name}
+                </Link>
+              </span>
+            ))}
+          </p>
+        )}
+      </div>
+      <a
+        href={document.url}
+        target="_blank"
+        rel="noopener noreferrer"
+        download
+        aria-label={`Download ${document.title}`}
+        className="border-primary text-primary hover:bg-primary inline-flex shrink-0 items-center gap-2 rounded-md border px-3 py-1.5 text-sm font-medium hover:text-white"
+      >
+        <Download className="h-4 w-4" />
+        <span className="hidden sm:inline">Download</span>
+      </a>
+    </li>
+  );
+};
+
+export default DocumentItem;
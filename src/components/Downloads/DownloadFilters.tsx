@@ -0,0 +1,116 @@
+import Link from "next/link";
+import { DocumentTypeEnum, DocumentTypeMap } from "@/lib/enum/documentType";
+import {
+  DocumentEntry,
+  DownloadFilters as Filters,
+  documentTypeSlug,
+  filterDocuments,
+} from "@/lib/helper/documents";
+import { toSlug } from "@/lib/routes";
+import { ProductCategory } from "@/types/products";
+
+interface DownloadFiltersProps {
+  documents: DocumentEntry[];
+  categories: ProductCategory[];
+  filters: Filters;
+}
+
+type Option = { label: string; count: number; filters: Filters };
+
+const buildHref = (
+  { categoryId, type }: Filters,
+  categories: ProductCategory[],
+) => {
+  const params = new URLSearchParams();
+  const category = categories.find((c) => c.id === categoryId);
+  if (category) params.set("category", toSlug(category.name));
+  if (type !== undefined) params.set("type", documentTypeSlug(type));
+  const query = params.toString();
+  return `/downloads${query ? `?${query}` : ""}`;
+};
+
+/** Category and document type pills, each counted against the other filter */
+const DownloadFilters = ({
+  documents,
+  categories,
+  filters,
+}: DownloadFiltersProps) => {
+  const count = (next: Filters) => filterDocuments(documents, next).length;
+
+  const groups: {
+    label: string;
+    options: Option[];
+    isSelected: (o: Filters) => boolean;
+  }[] = [
+    {
+      label: "Product Category",
+      isSelected: (o) => o.categoryId === filters.categoryId,
+      options: [
+        { categoryId: undefined, label: "All" },
+        ...categories.map((c) => ({ categoryId: c.id, label: c.name })),
+      ].map(({ categoryId, label }) => {
+        const next = { ...filters, categoryId };
+        return { label, count: count(next), filters: next };
+      }),
+    },
+    {
+      label: "Document Type",
+      isSelected: (o) => o.type === filters.type,
+      options: [
+        { type: undefined, label: "All" },
+        ...Object.keys(DocumentTypeMap)
+          .map(Number)
+          .map((type: DocumentTypeEnum) => ({
+            type,
+            label: DocumentTypeMap[type],
+          })),
+      ].map(({ type, label }) => {
+        const next = { ...filters, type };
+        return { label, count: count(next), filters: next };
+      }),
+    },
+  ];
+
+  return (
+    <div className="mb-8 space-y-4">
+      {groups.map((group) => (
+        <div key={group.label}>
+          <p className="mb-2 font-medium text-black dark:text-white">
+            {group.label}
+          </p>
+          <ul className="flex flex-wrap gap-2">
+            {group.options
+              .filter(
+                (option) =>
+                  option.count > 0 || group.isSelected(option.filters),
+              )
+              .map((option) => {
+                const selected = group.isSelected(option.filters);
+                return (
+                  <li key={option.label}>
+                    <Link
+                      href={buildHref(option.filters, categories)}
+                      scroll={false}
+                      aria-current={selected ? "true" : undefined}
+                      className={`inline-flex items-center gap-2 rounded-full border px-4 py-1.5 text-sm ${
+                        selected
+                          ? "border-primary bg-primary text-white"
+                          : "text-body-color dark:text-body-color-dark hover:border-primary hover:text-primary border-gray-300 dark:border-white/20"
+                      }`}
+                    >
+                      {option.label}
+                      <span className={selected ? "" : "opacity-70"}>
+                        {option.count}
+                      </span>
+                    </Link>
+                  </li>
+                );
+              })}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default DownloadFilters;
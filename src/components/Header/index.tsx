@@ -4,6 +4,10 @@ import Link from "next/link";
 import { usePathname } from "next/navigation";
 import { useEffect, useState } from "react";
 import ThemeToggler from "./ThemeToggler";
+import QuoteBasketDrawer from "../QuoteBasket/QuoteBasketDrawer";
+import QuoteBasketTrigger from "../QuoteBasket/QuoteBasketTrigger";
+import SearchPalette from "../Search/SearchPalette";
+import SearchTrigger from "../Search/SearchTrigger";
 import { getMenuData } from "./menuData";
 import { ProductCategory } from "@/types/products";
 
@@ -11,7 +15,7 @@ interface HeaderProps {
   productCategories: ProductCategory[];
 }
 
-const Header = ({ productCategories }: HeaderProps) => {
+const Header = ({ productCategories = [] }: HeaderProps) => {
   // Navbar toggle
   const [navbarOpen, setNavbarOpen] = useState(false);
   const navbarToggleHandler = () => {
@@ -38,6 +42,11 @@ const Header = ({ productCategories }: HeaderProps) => {
     setOpenIndex(openIndex === index ? -1 : index);
   };
 
+  // Search palette, shared by the desktop and mobile triggers
+  const [searchOpen, setSearchOpen] = useState(false);
+  // Quote basket, mounted once for both triggers
+  const [quoteOpen, setQuoteOpen] = useState(false);
+
   const usePathName = usePathname();
   const menuData = getMenuData(productCategories);
 
@@ -193,13 +202,17 @@ const Header = ({ productCategories }: HeaderProps) => {
                   })}
                 </ul>
               </nav>
-              <div className="flex items-center justify-end pr-16 pl-4 xl:pr-0">
+              <div className="flex items-center justify-end gap-2 pr-16 pl-4 xl:pr-0">
+                <SearchTrigger onClick={() => setSearchOpen(true)} />
+                <QuoteBasketTrigger onClick={() => setQuoteOpen(true)} />
                 <ThemeToggler />
               </div>
             </div>
 
             {/* Mobile Hamburger & ThemeToggler */}
             <div className="flex items-center gap-2 xl:hidden">
+              <SearchTrigger onClick={() => setSearchOpen(true)} />
+              <QuoteBasketTrigger onClick={() => setQuoteOpen(true)} />
               <ThemeToggler />
               <button
                 onClick={navbarToggleHandler}
@@ -224,6 +237,8 @@ const Header = ({ productCategories }: HeaderProps) => {
           </div>
         </div>
       </header>
+      <SearchPalette open={searchOpen} onOpenChange={setSearchOpen} />
+      <QuoteBasketDrawer open={quoteOpen} onOpenChange={setQuoteOpen} />
 
       {/* Mobile Fullscreen Nav */}
       <div
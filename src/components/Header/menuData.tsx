@@ -1,11 +1,14 @@
 import { Menu } from "@/types/menu";
+import { routes } from "@/lib/routes";
 import { ProductCategory } from "@/types/products"; // Adjust import path as needed
 
-export const getMenuData = (productCategories: ProductCategory[]): Menu[] => {
+export const getMenuData = (
+  productCategories: ProductCategory[] = [],
+): Menu[] => {
   const mappedCategories = productCategories.map((category) => ({
     id: category.id,
     title: category.name,
-    path: `/products?category=${encodeURIComponent(category.name.toLowerCase().replace(/\s+/g, "-"))}`,
+    path: routes.productCategory(category.name),
     newTab: false,
   }));
 
@@ -49,6 +52,12 @@ export const getMenuData = (productCategories: ProductCategory[]): Menu[] => {
           path: `/products/category`,
           newTab: false,
         },
+        {
+          id: 32,
+          title: "Downloads",
+          path: `/downloads`,
+          newTab: false,
+        },
         ...mappedCategories,
       ],
     },
@@ -64,6 +73,31 @@ export const getMenuData = (productCategories: ProductCategory[]): Menu[] => {
       path: "/services",
       newTab: false,
     },
+    {
+      id: 7,
+      title: "Tools",
+      newTab: false,
+      submenu: [
+        {
+          id: 71,
+          title: "Panel Thickness Calculator",
+          path: "/tools/panel-thickness",
+          newTab: false,
+        },
+        {
+          id: 72,
+          title: "Refrigeration Load Estimator",
+          path: "/tools/refrigeration-load",
+          newTab: false,
+        },
+        {
+          id: 73,
+          title: "Cold Room Layout Planner",
+          path: "/tools/layout-planner",
+          newTab: false,
+        },
+      ],
+    },
     {
       id: 5,
       title: "News",
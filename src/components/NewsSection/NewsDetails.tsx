@@ -2,11 +2,11 @@
 import { News } from "@/types/news";
 import RelatedPost from "../Blog/RelatedPost";
 import { formatDate } from "@/lib/helper/dateformatter";
+import { routes } from "@/lib/routes";
 import "swiper/css";
 import "swiper/css/navigation";
 import "swiper/css/pagination";
 import { useRouter } from "next/navigation";
-import slugify from "slugify";
 import { AnimatedDiv } from "../Animation";
 import { FiCalendar } from "react-icons/fi";
 import { ImageGallery } from "../Common/ImageGallery";
@@ -81,7 +81,7 @@ export default function NewsDetails({ news, moreNews }: NewsDetailsProps) {
                       <RelatedPost
                         title={item.title}
                         image={item.imageUrls[0] || "/images/blog/post-03.jpg"}
-                        slug={`/news/${slugify(item.title, { lower: true })}-${item.id}`}
+                        slug={routes.news(item)}
                         date={item.date || "No date"}
                       />
                     </li>
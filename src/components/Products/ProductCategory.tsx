@@ -1,7 +1,7 @@
 import { ProductCategory } from "@/types/products";
+import { routes } from "@/lib/routes";
 import ProductCategoryCard from "../Card/ProductCategoryCard";
 import SectionTitle from "../Common/SectionTitle";
-import slugify from "slugify";
 import { AnimatedDiv } from "../Animation";
 
 interface ProductCategorySectionProps {
@@ -31,7 +31,7 @@ const ProductCategorySection = ({
                 key={index}
                 name={category.name}
                 image={category.imageUrl}
-                href={`/products?category=${slugify(category.name, { lower: true })}`}
+                href={routes.productCategory(category.name)}
               />
             ))}
           </AnimatedDiv>
@@ -1,8 +1,10 @@
 "use client";
 
 import { useEffect, useRef, useState } from "react";
+import { FileDown } from "lucide-react";
 import { ProductCategory, Products } from "@/types/products";
-import slugify from "slugify";
+import { EnquiryTypeEnum } from "@/lib/enum/enquiryType";
+import { routes, toSlug } from "@/lib/routes";
 import ProductSideBar from "./ProductSideBar";
 import "swiper/css";
 import "swiper/css/navigation";
@@ -11,6 +13,10 @@ import type SwiperCore from "swiper";
 import { useRouter, useSearchParams } from "next/navigation";
 import { AnimatedDiv, AnimatedLink } from "../Animation";
 import { ImageGallery } from "../Common/ImageGallery";
+import CompareButton from "../Compare/CompareButton";
+import AddToQuotePanel from "../QuoteBasket/AddToQuotePanel";
+import ProductDownloads from "./ProductDownloads";
+import ProductSpecifications from "./ProductSpecifications";
 
 interface ProductDetailsProps {
   product: Products;
@@ -54,7 +60,7 @@ export default function ProductDetails({
       `/products?${buildQueryString({
         page: 1,
         search: searchQuery,
-        category: category ? slugify(category, { lower: true }) : "",
+        category: category ? toSlug(category) : "",
       })}`,
       { scroll: false },
     );
@@ -127,11 +133,17 @@ export default function ProductDetails({
                     )}
                   </div>
 
+                  <AddToQuotePanel product={product} />
+
                   {/* Action Buttons */}
                   <div className="flex flex-col gap-4 pt-4 sm:flex-row">
                     <AnimatedDiv variant="slideUp" className="w-full">
                       <AnimatedLink
-                        href="/contact#enquiry"
+                        href={routes.enquiry({
+                          type: EnquiryTypeEnum.ProductEnquiry,
+                          productId: product.id,
+                          source: routes.product(product),
+                        })}
                         className="group relative inline-flex w-full items-center justify-center overflow-hidden rounded-md bg-primary px-8 py-4 font-bold text-white shadow-lg hover:bg-primary hover:shadow-xl"
                       >
                         <span className="relative">Get Quote</span>
@@ -140,8 +152,37 @@ export default function ProductDetails({
                         </span>
                       </AnimatedLink>
                     </AnimatedDiv>
+                    <AnimatedDiv variant="slideUp" className="w-full">
+                      <CompareButton product={product} />
+                    </AnimatedDiv>
+                    <AnimatedDiv variant="slideUp" className="w-full">
+                      <a
+                        href={routes.productSpecSheet(product)}
+                        download
+                        className="border-primary text-primary hover:bg-primary/10 dark:bg-gray-dark inline-flex w-full items-center justify-center gap-2 rounded-md border bg-white px-8 py-4 font-medium transition-colors"
+                      >
+                        <FileDown className="h-4 w-4" />
+                        <span>Spec Sheet</span>
+                      </a>
+                    </AnimatedDiv>
                   </div>
                 </div>
+
+                {/* Specifications */}
+                <ProductSpecifications
+                  specifications={product.specifications}
+                  className="lg:col-span-2"
+                />
+
+                {/* Downloads */}
+                <ProductDownloads
+                  documents={product.documents}
+                  categoryName={
+                    categories.find((c) => c.id === product.productCategoryId)
+                      ?.name
+                  }
+                  className="lg:col-span-2"
+                />
               </AnimatedDiv>
             ) : (
               <div className="flex h-64 flex-col items-center justify-center">
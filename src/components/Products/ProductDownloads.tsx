@@ -0,0 +1,40 @@
+import Link from "next/link";
+import { sortDocuments } from "@/lib/helper/documents";
+import { routes } from "@/lib/routes";
+import { ProductDocument } from "@/types/products";
+import DocumentItem from "../Downloads/DocumentItem";
+
+const ProductDownloads = ({
+  documents,
+  categoryName,
+  className = "",
+}: {
+  documents?: ProductDocument[];
+  categoryName?: string;
+  className?: string;
+}) => {
+  if (!documents?.length) return null;
+
+  return (
+    <div className={className}>
+      <div className="mb-4 flex items-baseline justify-between gap-4">
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+          Downloads
+        </h2>
+        <Link
+          href={routes.downloads(categoryName)}
+          className="text-primary text-sm font-medium hover:underline"
+        >
+          All {categoryName || "product"} documents
+        </Link>
+      </div>
+      <ul className="overflow-hidden rounded-xs border border-gray-200 dark:border-white/10">
+        {sortDocuments(documents).map((document) => (
+          <DocumentItem key={document.url} document={document} />
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default ProductDownloads;
@@ -0,0 +1,48 @@
+import { countSelected, Facet } from "@/lib/helper/productFacets";
+import { AnimatedDiv } from "../Animation";
+import ProductFacets from "./ProductFacets";
+
+interface ProductFacetSideBarProps {
+  facets: Facet[];
+  onToggle: (key: string, value: string) => void;
+  onClear: () => void;
+  className?: string;
+  title?: string;
+}
+
+const ProductFacetSideBar = ({
+  facets,
+  onToggle,
+  onClear,
+  className = "",
+  title = "Filters",
+}: ProductFacetSideBarProps) => {
+  const activeCount = countSelected(facets);
+
+  return (
+    <div className={`w-full ${className}`}>
+      {facets.length > 0 && (
+        <AnimatedDiv className="shadow-three dark:bg-gray-dark mb-10 rounded-xs bg-white dark:shadow-none">
+          <div className="border-body-color/10 flex items-center justify-between border-b px-8 py-4 dark:border-white/10">
+            <h3 className="text-lg font-semibold text-black dark:text-white">
+              {title}
+            </h3>
+            {activeCount > 0 && (
+              <button
+                onClick={onClear}
+                className="text-primary cursor-pointer text-sm font-medium hover:underline"
+              >
+                Clear all
+              </button>
+            )}
+          </div>
+          <div className="p-4">
+            <ProductFacets facets={facets} onToggle={onToggle} />
+          </div>
+        </AnimatedDiv>
+      )}
+    </div>
+  );
+};
+
+export default ProductFacetSideBar;
@@ -0,0 +1,57 @@
+import { Facet } from "@/lib/helper/productFacets";
+
+interface ProductFacetsProps {
+  facets: Facet[];
+  onToggle: (key: string, value: string) => void;
+}
+
+/** Checkbox groups for each facet, shared by the sidebar and the mobile sheet */
+const ProductFacets = ({ facets, onToggle }: ProductFacetsProps) => {
+  return (
+    <div className="space-y-6">
+      {facets.map((facet) => (
+        <fieldset key={facet.key}>
+          <legend className="mb-3 font-medium text-black dark:text-white">
+            {facet.label}
+          </legend>
+          <ul className="space-y-1">
+            {facet.options.map((option) => {
+              const id = `facet-${facet.key}-${option.value}`;
+              const disabled = option.count === 0 && !option.selected;
+
+              return (
+                <li key={option.value}>
+                  <label
+                    htmlFor={id}
+                    className={`flex items-center gap-3 rounded-md px-2 py-1.5 text-base ${
+                      disabled
+                        ? "cursor-not-allowed opacity-50"
+                        : "cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-700"
+                    }`}
+                  >
+                    <input
+                      type="checkbox"
+                      id={id}
+                      checked={option.selected}
+                      disabled={disabled}
+                      onChange={() => onToggle(facet.key, option.value)}
+                      className="accent-primary h-4 w-4 shrink-0"
+                    />
+                    <span className="text-body-color dark:text-body-color-dark flex-1">
+                      {option.label}
+                    </span>
+                    <span className="text-body-color dark:text-body-color-dark text-sm">
+                      {option.count}
+                    </span>
+                  </label>
+                </li>
+              );
+            })}
+          </ul>
+        </fieldset>
+      ))}
+    </div>
+  );
+};
+
+export default ProductFacets;
@@ -2,24 +2,26 @@
 
 import { useRouter, useSearchParams } from "next/navigation";
 import { getVisiblePages } from "@/lib/helper/getVisiblePages";
+import { DEFAULT_SORT_BY, SortByOption } from "@/lib/enum/sortByOption";
+import { Facet } from "@/lib/helper/productFacets";
 import { useEffect, useState } from "react";
 import Pagination from "../Common/Pagination";
-import { ProductCategory, Products } from "@/types/products";
+import { Products } from "@/types/products";
 import ProductCard from "../Card/ProductCard";
-import slugify from "slugify";
-import ProductSideBar from "./ProductSideBar";
+import ProductFacetSideBar from "./ProductFacetSideBar";
 import { AnimatedDiv } from "../Animation";
 import { IoSearch } from "react-icons/io5";
 import ProductMobileFilter from "./ProductMobileFilter";
+import ProductSortSelect from "./ProductSortSelect";
 
 interface ProductListSectionProps {
   products: Products[];
   currentPage: number;
   pageSize: number;
   totalCount?: number;
-  categories?: ProductCategory[];
+  facets?: Facet[];
   searchQuery?: string;
-  filterCategory?: string;
+  sortBy?: SortByOption;
 }
 
 export default function ProductListSection({
@@ -27,9 +29,9 @@ export default function ProductListSection({
   currentPage = 1,
   pageSize = 10,
   totalCount = 1,
-  categories = [],
+  facets = [],
   searchQuery = "",
-  filterCategory = "",
+  sortBy = DEFAULT_SORT_BY,
 }: ProductListSectionProps) {
   const router = useRouter();
   const searchParams = useSearchParams();
@@ -40,7 +42,9 @@ export default function ProductListSection({
   const buildQueryString = (params: {
     page?: number;
     search?: string;
-    category?: string;
+    sortBy?: SortByOption;
+    /** Facet values to set, an empty list removes the facet */
+    filters?: Record<string, string[]>;
   }) => {
     const newParams = new URLSearchParams(searchParams.toString());
     if (params.page) newParams.set("page", params.page.toString());
@@ -49,32 +53,54 @@ export default function ProductListSection({
         ? newParams.set("search", params.search.trim())
         : newParams.delete("search");
     }
-    if (params.category !== undefined) {
-      params.category
-        ? newParams.set("category", params.category)
-        : newParams.delete("category");
+    if (params.sortBy !== undefined) {
+      params.sortBy !== DEFAULT_SORT_BY
+        ? newParams.set("sortBy", params.sortBy.toString())
+        : newParams.delete("sortBy");
     }
+    Object.entries(params.filters || {}).forEach(([key, values]) => {
+      values.length > 0
+        ? newParams.set(key, values.join(","))
+        : newParams.delete(key);
+    });
     return newParams.toString();
   };
 
   const handleSearch = (query: string) => {
     router.push(
-      `/products?${buildQueryString({ page: 1, search: query, category: filterCategory })}`,
+      `/products?${buildQueryString({ page: 1, search: query })}`,
       { scroll: false },
     );
   };
 
-  const handleCategoryFilter = (category: string) => {
+  const handleFacetToggle = (key: string, value: string) => {
+    const selected = (facets.find((f) => f.key === key)?.options || [])
+      .filter((o) => o.selected)
+      .map((o) => o.value);
+    const values = selected.includes(value)
+      ? selected.filter((v) => v !== value)
+      : [...selected, value];
+
+    router.push(
+      `/products?${buildQueryString({ page: 1, filters: { [key]: values } })}`,
+      { scroll: false },
+    );
+  };
+
+  const handleSortChange = (value: SortByOption) => {
+    router.push(`/products?${buildQueryString({ page: 1, sortBy: value })}`, {
+      scroll: false,
+    });
+  };
+
+  const handleClearFacets = () => {
     router.push(
       `/products?${buildQueryString({
         page: 1,
-        search: searchQuery,
-        category: category ? slugify(category, { lower: true }) : "",
+        filters: Object.fromEntries(facets.map((f) => [f.key, []])),
       })}`,
       { scroll: false },
     );
-    // Close the sheet after selection
-    document.dispatchEvent(new KeyboardEvent("keydown", { key: "Escape" }));
   };
 
   // Sync local search query with URL search query
@@ -90,7 +116,7 @@ export default function ProductListSection({
 
   // Generate pagination href safely
   const getPaginationHref = (page: number) => {
-    return `/products?${buildQueryString({ page, search: searchQuery, category: filterCategory })}`;
+    return `/products?${buildQueryString({ page })}`;
   };
 
   return (
@@ -99,12 +125,10 @@ export default function ProductListSection({
         <div className="flex flex-col gap-8 lg:flex-row">
           {/* Sidebar: Show on lg+ only */}
           <div className="hidden lg:block lg:w-1/5">
-            <ProductSideBar
-              categories={categories}
-              currentCategory={filterCategory}
-              handleCategoryFilter={handleCategoryFilter}
-              title="Product Categories"
-              allCategoryText="Show All"
+            <ProductFacetSideBar
+              facets={facets}
+              onToggle={handleFacetToggle}
+              onClear={handleClearFacets}
             />
           </div>
 
@@ -131,9 +155,9 @@ export default function ProductListSection({
               </button>
               <div className="lg:hidden">
                 <ProductMobileFilter
-                  categories={categories}
-                  currentCategory={filterCategory}
-                  handleCategoryFilter={handleCategoryFilter}
+                  facets={facets}
+                  onToggle={handleFacetToggle}
+                  onClear={handleClearFacets}
                 />
               </div>
             </div>
@@ -169,11 +193,19 @@ export default function ProductListSection({
               </div>
             </AnimatedDiv>
 
+            {/* Result Count & Sort */}
+            <div className="mb-6 flex items-center justify-between gap-4">
+              <p className="text-body-color dark:text-body-color-dark text-sm">
+                {totalCount} {totalCount === 1 ? "product" : "products"}
+              </p>
+              <ProductSortSelect value={sortBy} onChange={handleSortChange} />
+            </div>
+
             {/* Products Cards or Not Found Message */}
             {products.length > 0 ? (
               <>
                 <AnimatedDiv
-                  key={`${currentPage}-${filterCategory}-${searchQuery}`}
+                  key={searchParams.toString()}
                   variant="slideUp"
                   staggerChildren={0.2}
                 >
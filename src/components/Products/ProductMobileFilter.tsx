@@ -1,7 +1,6 @@
 "use client";
 
-import { ProductCategory } from "@/types/products";
-import slugify from "slugify";
+import { countSelected, Facet } from "@/lib/helper/productFacets";
 import {
   Sheet,
   SheetContent,
@@ -10,26 +9,27 @@ import {
   SheetTitle,
   SheetTrigger,
 } from "../ui/sheet";
-import { Filter, X } from "lucide-react";
+import { Filter } from "lucide-react";
 import { Badge } from "../ui/badge";
 import { ScrollArea } from "../ui/scroll-area";
 import { Separator } from "../ui/separator";
+import ProductFacets from "./ProductFacets";
 
 interface MobileFilterProps {
-  categories: ProductCategory[];
-  currentCategory?: string;
-  handleCategoryFilter: (category: string) => void;
+  facets: Facet[];
+  onToggle: (key: string, value: string) => void;
+  onClear: () => void;
   title?: string;
-  allCategoryText?: string;
 }
 
 const ProductMobileFilter = ({
-  categories = [],
-  currentCategory = "",
-  handleCategoryFilter,
+  facets = [],
+  onToggle,
+  onClear,
   title = "Filters",
-  allCategoryText = "All Categories",
 }: MobileFilterProps) => {
+  const activeCount = countSelected(facets);
+
   return (
     <Sheet>
       <SheetTrigger asChild>
@@ -40,9 +40,9 @@ const ProductMobileFilter = ({
           >
             <Filter className="h-4 w-4" />
           </button>
-          {currentCategory && (
+          {activeCount > 0 && (
             <Badge className="absolute -top-1 -right-1 flex h-5 w-5 items-center justify-center rounded-full p-0 text-white">
-              1
+              {activeCount}
             </Badge>
           )}
         </div>
@@ -57,38 +57,17 @@ const ProductMobileFilter = ({
         <Separator className="my-3" />
 
         <ScrollArea className="flex-1">
-          <div className="space-y-6">
-            <div>
-              <h3 className="mb-3 font-medium">Categories</h3>
-              <div className="space-y-2">
-                <button
-                  onClick={() => handleCategoryFilter("")}
-                  className={`w-full cursor-pointer rounded-md px-4 py-2 text-left text-base font-medium transition ${
-                    !currentCategory
-                      ? "bg-primary text-white"
-                      : "text-body-color dark:text-body-color-dark hover:bg-gray-100 dark:hover:bg-gray-700"
-                  }`}
-                >
-                  {allCategoryText}
-                </button>
-
-                {categories.map((item) => (
-                  <button
-                    key={item.id}
-                    onClick={() => handleCategoryFilter(item.name)}
-                    className={`w-full cursor-pointer rounded-md px-4 py-2 text-left text-base font-medium transition ${
-                      currentCategory === slugify(item.name, { lower: true })
-                        ? "bg-primary text-white"
-                        : "text-body-color dark:text-body-color-dark hover:bg-gray-100 dark:hover:bg-gray-700"
-                    }`}
-                  >
-                    {item.name}
-                  </button>
-                ))}
-              </div>
-            </div>
-          </div>
+          <ProductFacets facets={facets} onToggle={onToggle} />
         </ScrollArea>
+
+        {activeCount > 0 && (
+          <button
+            onClick={onClear}
+            className="border-primary text-primary hover:bg-primary/10 mt-4 w-full cursor-pointer rounded-md border px-4 py-2 text-base font-medium"
+          >
+            Clear all filters
+          </button>
+        )}
       </SheetContent>
     </Sheet>
   );
@@ -1,5 +1,5 @@
 import { ProductCategory } from "@/types/products";
-import slugify from "slugify";
+import { toSlug } from "@/lib/routes";
 import { AnimatedDiv } from "../Animation";
 
 interface CategoryFilterProps {
@@ -44,7 +44,7 @@ const ProductSideBar = ({
                 <button
                   onClick={() => handleCategoryFilter(item.name)}
                   className={`w-full cursor-pointer rounded-md px-4 py-2 text-left text-base font-medium transition ${
-                    currentCategory === slugify(item.name, { lower: true })
+                    currentCategory === toSlug(item.name)
                       ? "bg-primary text-white"
                       : "text-body-color dark:text-body-color-dark hover:bg-gray-100 dark:hover:bg-gray-700"
                   }`}
@@ -0,0 +1,34 @@
+import { SortByOption, SortByOptionMap } from "@/lib/enum/sortByOption";
+
+interface ProductSortSelectProps {
+  value: SortByOption;
+  onChange: (sortBy: SortByOption) => void;
+  className?: string;
+}
+
+const ProductSortSelect = ({
+  value,
+  onChange,
+  className = "",
+}: ProductSortSelectProps) => {
+  return (
+    <label className={`flex shrink-0 items-center gap-2 ${className}`}>
+      <span className="text-body-color dark:text-body-color-dark text-sm whitespace-nowrap">
+        Sort by
+      </span>
+      <select
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="border-stroke text-body-color focus:border-primary dark:text-body-color-dark dark:shadow-two dark:focus:border-primary rounded-xs border bg-[#f8f8f8] px-3 py-2 text-base outline-hidden dark:border-transparent dark:bg-[#2C303B] dark:focus:shadow-none"
+      >
+        {Object.entries(SortByOptionMap).map(([id, label]) => (
+          <option key={id} value={id}>
+            {label}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+};
+
+export default ProductSortSelect;
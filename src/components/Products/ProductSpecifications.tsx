@@ -0,0 +1,59 @@
+import {
+  formatSpecValue,
+  groupSpecifications,
+} from "@/lib/helper/specifications";
+import { ProductSpecification } from "@/types/products";
+
+const ProductSpecifications = ({
+  specifications,
+  className = "",
+}: {
+  specifications?: ProductSpecification[];
+  className?: string;
+}) => {
+  const sections = groupSpecifications(specifications);
+  if (sections.length === 0) return null;
+
+  return (
+    <div className={className}>
+      <h2 className="mb-4 text-xl font-semibold text-gray-900 dark:text-white">
+        Technical Specifications
+      </h2>
+      <div className="overflow-hidden rounded-xs border border-gray-200 dark:border-white/10">
+        <table className="w-full text-left text-sm">
+          {sections.map((section) => (
+            <tbody key={section.group}>
+              <tr className="bg-gray-100 dark:bg-gray-800">
+                <th
+                  colSpan={2}
+                  scope="colgroup"
+                  className="px-4 py-2 font-semibold text-gray-900 dark:text-white"
+                >
+                  {section.label}
+                </th>
+              </tr>
+              {section.specifications.map((spec) => (
+                <tr
+                  key={spec.key}
+                  className="border-t border-gray-200 dark:border-white/10"
+                >
+                  <th
+                    scope="row"
+                    className="w-1/2 px-4 py-2 font-medium text-gray-600 dark:text-gray-400"
+                  >
+                    {spec.label}
+                  </th>
+                  <td className="text-body-color dark:text-body-color-dark px-4 py-2">
+                    {formatSpecValue(spec)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          ))}
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default ProductSpecifications;
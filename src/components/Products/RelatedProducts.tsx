@@ -0,0 +1,61 @@
+"use client";
+
+import { Swiper, SwiperSlide } from "swiper/react";
+import { Navigation } from "swiper/modules";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import "swiper/css";
+import "swiper/css/navigation";
+import { Products } from "@/types/products";
+import ProductCard from "../Card/ProductCard";
+
+const RelatedProducts = ({ products }: { products: Products[] }) => {
+  if (products.length === 0) return null;
+
+  return (
+    <section className="pb-[120px]">
+      <div className="container">
+        <div className="mb-8 flex items-center justify-between gap-4">
+          <h2 className="text-2xl font-bold text-black sm:text-3xl dark:text-white">
+            Related Products
+          </h2>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              aria-label="Previous related products"
+              className="related-prev border-primary text-primary hover:bg-primary inline-flex h-10 w-10 cursor-pointer items-center justify-center rounded-full border transition-colors hover:text-white disabled:cursor-not-allowed disabled:opacity-40"
+            >
+              <ChevronLeft className="h-5 w-5" />
+            </button>
+            <button
+              type="button"
+              aria-label="Next related products"
+              className="related-next border-primary text-primary hover:bg-primary inline-flex h-10 w-10 cursor-pointer items-center justify-center rounded-full border transition-colors hover:text-white disabled:cursor-not-allowed disabled:opacity-40"
+            >
+              <ChevronRight className="h-5 w-5" />
+            </button>
+          </div>
+        </div>
+        <Swiper
+          modules={[Navigation]}
+          navigation={{ prevEl: ".related-prev", nextEl: ".related-next" }}
+          spaceBetween={24}
+          slidesPerView={1.2}
+          breakpoints={{
+            640: { slidesPerView: 2 },
+            1024: { slidesPerView: 3 },
+            1280: { slidesPerView: 4 },
+          }}
+          className="!pb-4"
+        >
+          {products.map((product) => (
+            <SwiperSlide key={product.id} className="!h-auto">
+              <ProductCard product={product} />
+            </SwiperSlide>
+          ))}
+        </Swiper>
+      </div>
+    </section>
+  );
+};
+
+export default RelatedProducts;
@@ -1,10 +1,13 @@
 "use client";
 import { useState } from "react";
 import Image from "next/image";
+import Link from "next/link";
 import { FiX, FiChevronRight } from "react-icons/fi";
 import { capitalize } from "lodash";
 import { Projects } from "@/types/projects";
 import { formatDate } from "@/lib/helper/dateformatter";
+import { EnquiryTypeEnum } from "@/lib/enum/enquiryType";
+import { routes } from "@/lib/routes";
 import { AnimatedDiv } from "../Animation";
 
 type ProjectDetailsProps = {
@@ -37,6 +40,18 @@ const ProjectDetails = ({ project }: ProjectDetailsProps) => {
               <p className="text-body-color dark:text-body-color-dark text-base leading-relaxed! md:text-lg">
                 {project.description}
               </p>
+
+              <Link
+                href={routes.enquiry({
+                  type: EnquiryTypeEnum.ColdRoomDesign,
+                  projectRef: project.name,
+                  source: routes.project(project),
+                })}
+                className="bg-primary hover:bg-primary/90 inline-flex items-center rounded-md px-6 py-3 text-base font-medium text-white"
+              >
+                Enquire About a Similar Project
+                <FiChevronRight className="ml-1" />
+              </Link>
             </div>
           </div>
 
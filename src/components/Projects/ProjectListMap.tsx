@@ -9,6 +9,7 @@ import AutoSizer from "react-virtualized-auto-sizer";
 import ProjectPopup from "./ProjectPopUp";
 import { formatDate } from "@/lib/helper/dateformatter";
 import { AnimatedDiv } from "../Animation";
+import { publicConfig } from "@/lib/publicConfig";
 
 const MapContainer = dynamic(
   () => import("react-leaflet").then((mod) => mod.MapContainer),
@@ -202,8 +203,8 @@ const ProjectListMap = ({ projectData }: Props) => {
                 ref={mapRef}
               >
                 <TileLayer
-                  url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
-                  attribution="&copy; OpenStreetMap contributors"
+                  url={publicConfig.map.tileUrl}
+                  attribution={publicConfig.map.attribution}
                 />
                 {projectData.map((project) => (
                   <Marker
@@ -4,6 +4,7 @@ import dynamic from "next/dynamic";
 import "leaflet/dist/leaflet.css";
 import { Projects } from "@/types/projects";
 import ProjectPopup from "./ProjectPopUp";
+import { publicConfig } from "@/lib/publicConfig";
 
 const MapContainer = dynamic(
   () => import("react-leaflet").then((mod) => mod.MapContainer),
@@ -55,8 +56,8 @@ const ProjectMap = ({ projectData }: { projectData: Projects[] }) => {
         style={{ height: "100%", width: "100%" }}
       >
         <TileLayer
-          url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
-          attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+          url={publicConfig.map.tileUrl}
+          attribution={publicConfig.map.attribution}
         />
         {projectData.map((project) => (
           <Marker
@@ -1,9 +1,9 @@
 import { formatDate } from "@/lib/helper/dateformatter";
+import { routes } from "@/lib/routes";
 import { Projects } from "@/types/projects";
 import Image from "next/image";
 import Link from "next/link";
 import { FiCalendar } from "react-icons/fi";
-import slugify from "slugify";
 
 interface ProjectPopupProps {
   project: Projects;
@@ -45,7 +45,7 @@ const ProjectPopup: React.FC<ProjectPopupProps> = ({ project }) => {
       {/* Always show the CTA */}
       <div className="flex justify-end pt-1">
         <Link
-          href={`/projects/${slugify(project.name, { lower: true })}-${project.id}`}
+          href={routes.project(project)}
           className="text-primary hover:text-primary/80 text-xs font-medium hover:underline"
         >
           View Details →
@@ -0,0 +1,50 @@
+"use client";
+
+import { Check, ClipboardList } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Products } from "@/types/products";
+import { useQuoteBasket } from "./QuoteBasketProvider";
+
+/** Round button for product cards, adds one unit to the quote basket */
+export default function AddToQuoteButton({
+  product,
+  className,
+}: {
+  product: Products;
+  className?: string;
+}) {
+  const { has, isFull, add } = useQuoteBasket();
+
+  if (product.id === undefined) return null;
+
+  const added = has(product.id);
+  const disabled = !added && isFull;
+  const label = added
+    ? "Add another to quote"
+    : disabled
+      ? "Quote basket is full"
+      : "Add to quote";
+
+  return (
+    <button
+      type="button"
+      onClick={() => add(product)}
+      disabled={disabled}
+      title={label}
+      className={cn(
+        "inline-flex h-9 w-9 cursor-pointer items-center justify-center rounded-full shadow-md transition-colors disabled:cursor-not-allowed disabled:opacity-50",
+        added
+          ? "bg-primary text-white"
+          : "text-primary hover:bg-primary/10 dark:bg-gray-dark bg-white",
+        className,
+      )}
+    >
+      {added ? (
+        <Check className="h-4 w-4" />
+      ) : (
+        <ClipboardList className="h-4 w-4" />
+      )}
+      <span className="sr-only">{label}</span>
+    </button>
+  );
+}
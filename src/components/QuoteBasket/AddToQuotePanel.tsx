@@ -0,0 +1,87 @@
+"use client";
+
+import { useState } from "react";
+import { Products } from "@/types/products";
+import QuantityInput from "./QuantityInput";
+import { useQuoteBasket } from "./QuoteBasketProvider";
+
+const inputClassName =
+  "border-stroke text-body-color focus:border-primary dark:text-body-color-dark dark:shadow-two dark:focus:border-primary w-full rounded-xs border bg-[#f8f8f8] px-4 py-2 text-base outline-hidden dark:border-transparent dark:bg-[#2C303B] dark:focus:shadow-none";
+
+/** Quantity and notes for the product detail page, adds a line to the quote basket */
+export default function AddToQuotePanel({ product }: { product: Products }) {
+  const { has, isFull, add } = useQuoteBasket();
+  const [quantity, setQuantity] = useState(1);
+  const [notes, setNotes] = useState("");
+  const [added, setAdded] = useState(false);
+
+  const full = isFull && product.id !== undefined && !has(product.id);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    add(product, quantity, notes.trim());
+    setQuantity(1);
+    setNotes("");
+    setAdded(true);
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="space-y-3 rounded-md border border-gray-200 p-4 dark:border-white/10"
+    >
+      <div className="flex gap-3">
+        <div className="w-28 shrink-0">
+          <label
+            htmlFor="quote-quantity"
+            className="text-dark mb-1 block text-sm font-medium dark:text-white"
+          >
+            Quantity
+          </label>
+          <QuantityInput
+            id="quote-quantity"
+            value={quantity}
+            onChange={setQuantity}
+            className={inputClassName}
+          />
+        </div>
+        <div className="flex-1">
+          <label
+            htmlFor="quote-notes"
+            className="text-dark mb-1 block text-sm font-medium dark:text-white"
+          >
+            Notes
+          </label>
+          <input
+            type="text"
+            id="quote-notes"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="e.g. colour, length, thickness"
+            maxLength={500}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+      <button
+        type="submit"
+        disabled={full}
+        className="border-primary text-primary hover:bg-primary/10 w-full cursor-pointer rounded-md border px-8 py-3 font-bold disabled:cursor-not-allowed disabled:opacity-50"
+      >
+        Add to Quote
+      </button>
+      {full && (
+        <p role="status" className="text-body-color text-sm">
+          Your quote basket is full. Send it or remove a product to add this
+          one.
+        </p>
+      )}
+      {added && (
+        <p role="status" className="text-primary text-sm">
+          Added. Open the quote basket at the top of the page to send your
+          request.
+        </p>
+      )}
+    </form>
+  );
+}
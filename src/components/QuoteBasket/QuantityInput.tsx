@@ -0,0 +1,60 @@
+"use client";
+
+import { useState } from "react";
+import { MAX_LINE_QUANTITY } from "@/lib/enquiry/schema";
+
+interface QuantityInputProps
+  extends Omit<
+    React.InputHTMLAttributes<HTMLInputElement>,
+    "type" | "value" | "onChange"
+  > {
+  value: number;
+  onChange: (quantity: number) => void;
+}
+
+/**
+ * Whole-number quantity field. What's typed is kept as is, so it can be
+ * cleared and retyped, and only rounded and clamped once the field loses focus.
+ */
+export default function QuantityInput({
+  value,
+  onChange,
+  onBlur,
+  ...props
+}: QuantityInputProps) {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setDraft(e.target.value);
+    // Pass complete quantities straight on, so submitting with Enter uses them
+    const typed = Number(e.target.value);
+    if (Number.isInteger(typed) && typed >= 1 && typed <= MAX_LINE_QUANTITY) {
+      onChange(typed);
+    }
+  };
+
+  const handleBlur = (e: React.FocusEvent<HTMLInputElement>) => {
+    if (draft !== null) {
+      const typed = Math.round(Number(draft));
+      if (Number.isFinite(typed)) {
+        onChange(Math.min(MAX_LINE_QUANTITY, Math.max(1, typed)));
+      }
+      setDraft(null);
+    }
+    onBlur?.(e);
+  };
+
+  return (
+    <input
+      {...props}
+      type="number"
+      inputMode="numeric"
+      min={1}
+      max={MAX_LINE_QUANTITY}
+      step={1}
+      value={draft ?? value}
+      onChange={handleChange}
+      onBlur={handleBlur}
+    />
+  );
+}
@@ -0,0 +1,363 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { Trash2 } from "lucide-react";
+import { submitEnquiry } from "@/api/api";
+import { isApiError } from "@/api/apiError";
+import { EnquiryTypeEnum } from "@/lib/enum/enquiryType";
+import {
+  FieldErrors,
+  issuesToFieldErrors,
+  parseApiFieldErrors,
+} from "@/lib/enquiry/errors";
+import { summariseLineItems } from "@/lib/enquiry/lineItems";
+import { enquirySubmissionSchema } from "@/lib/enquiry/schema";
+import { useEnquiryFormToken } from "@/lib/hooks/useEnquiryFormToken";
+import { routes } from "@/lib/routes";
+import { EnquiryLineItem, EnquirySubmission } from "@/types/enquiry";
+import FieldError, { errorId } from "../Contact/FieldError";
+import HoneypotField from "../Contact/HoneypotField";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "../ui/sheet";
+import { ScrollArea } from "../ui/scroll-area";
+import { Separator } from "../ui/separator";
+import QuantityInput from "./QuantityInput";
+import { useQuoteBasket } from "./QuoteBasketProvider";
+
+const inputClassName =
+  "border-stroke text-body-color focus:border-primary dark:text-body-color-dark dark:shadow-two dark:focus:border-primary w-full rounded-xs border bg-[#f8f8f8] px-3 py-2 text-sm outline-hidden dark:border-transparent dark:bg-[#2C303B] dark:focus:shadow-none aria-invalid:border-red-500 dark:aria-invalid:border-red-500";
+
+/** The contact form on the same page uses unprefixed error ids */
+const ERROR_ID_PREFIX = "quote-";
+
+/** Errors shown under an input here, anything else is listed in the status */
+const isInlineError = (key: string) =>
+  ["name", "companyName", "email", "phone", "message"].includes(key) ||
+  /^items\.\d+\.(quantity|notes)$/.test(key);
+
+const emptyContact = {
+  name: ``,
+  companyName: ``,
+  email: ``,
+  phone: ``,
+  message: ``,
+};
+
+interface QuoteBasketDrawerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function QuoteBasketDrawer({
+  open,
+  onOpenChange,
+}: QuoteBasketDrawerProps) {
+  const { items, update, remove, clear } = useQuoteBasket();
+  const [contact, setContact] = useState(emptyContact);
+  const [website, setWebsite] = useState(``);
+  const [errors, setErrors] = useState<FieldErrors>({});
+  const [submitting, setSubmitting] = useState(false);
+  const [status, setStatus] = useState<{ ok: boolean; text: string } | null>(
+    null,
+  );
+  const [formToken, refreshFormToken] = useEnquiryFormToken(open);
+
+  const clearError = (key: string) =>
+    setErrors((current) => {
+      if (!(key in current)) return current;
+      const next = { ...current };
+      delete next[key];
+      return next;
+    });
+
+  const errorProps = (key: string) => ({
+    "aria-invalid": key in errors,
+    "aria-describedby":
+      key in errors ? errorId(key, ERROR_ID_PREFIX) : undefined,
+  });
+
+  const handleContactChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>,
+  ) => {
+    setContact({ ...contact, [e.target.name]: e.target.value });
+    clearError(e.target.name);
+  };
+
+  const buildRequestBody = () => {
+    const lineItems: EnquiryLineItem[] = items.map((item) => ({
+      productId: item.productId,
+      productName: item.name,
+      quantity: item.quantity,
+      notes: item.notes || undefined,
+    }));
+
+    return {
+      ...contact,
+      type: EnquiryTypeEnum.ProductEnquiry,
+      message: [
+        `Quote request:\n${summariseLineItems(lineItems)}`,
+        contact.message.trim(),
+      ]
+        .filter(Boolean)
+        .join(`\n\n`),
+      items: lineItems,
+      details: {},
+      website,
+      formToken,
+    } as EnquirySubmission;
+  };
+
+  const showErrors = (fieldErrors: FieldErrors, otherErrors: string[] = []) => {
+    const inline = Object.keys(fieldErrors).some(isInlineError);
+    setErrors(fieldErrors);
+    setStatus({
+      ok: false,
+      text: [
+        ...(inline ? [`Please check the highlighted fields.`] : []),
+        ...Object.entries(fieldErrors)
+          .filter(([key]) => !isInlineError(key))
+          .map(([, message]) => message),
+        ...otherErrors,
+      ].join(` `),
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (items.length === 0 || submitting) return;
+
+    // Same schema as the enquiry route, so most mistakes never leave the browser
+    const result = enquirySubmissionSchema.safeParse(buildRequestBody());
+    if (!result.success) {
+      showErrors(issuesToFieldErrors(result.error.issues));
+      return;
+    }
+
+    setSubmitting(true);
+    setStatus(null);
+    try {
+      await submitEnquiry(result.data as EnquirySubmission);
+      clear();
+      setContact(emptyContact);
+      setErrors({});
+      setStatus({
+        ok: true,
+        text: `Thank you, your quote request has been sent. Our team will be in touch soon.`,
+      });
+    } catch (error) {
+      if (isApiError(error) && error.errors.length > 0) {
+        const { fieldErrors, otherErrors } = parseApiFieldErrors(error.errors);
+        showErrors(fieldErrors, otherErrors);
+        return;
+      }
+      setStatus({
+        ok: false,
+        text:
+          isApiError(error) && error.status !== 0
+            ? error.message
+            : `Error submitting your quote request, please try again.`,
+      });
+    } finally {
+      setSubmitting(false);
+      refreshFormToken();
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="flex w-[90vw] max-w-md flex-col">
+        <SheetHeader>
+          <SheetTitle className="text-xl">Quote Basket</SheetTitle>
+          <SheetDescription>
+            Send all the products below in one request for quotation.
+          </SheetDescription>
+        </SheetHeader>
+
+        <Separator />
+
+        <ScrollArea className="min-h-0 flex-1 pr-3">
+          {status && (
+            <p
+              role="status"
+              className={`mb-4 rounded-md px-3 py-2 text-sm ${
+                status.ok
+                  ? "bg-green-50 text-green-800 dark:bg-green-900/30 dark:text-green-100"
+                  : "bg-red-50 text-red-800 dark:bg-red-900/30 dark:text-red-100"
+              }`}
+            >
+              {status.text}
+            </p>
+          )}
+
+          {items.length === 0 ? (
+            <div className="text-body-color dark:text-body-color-dark py-8 text-center text-sm">
+              <p className="mb-4">Your quote basket is empty.</p>
+              <Link href="/products" className="text-primary font-medium">
+                Browse products
+              </Link>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <HoneypotField value={website} onChange={setWebsite} />
+
+              <ul className="space-y-4">
+                {items.map((item, index) => (
+                  <li
+                    key={item.productId}
+                    className="rounded-md border border-gray-200 p-3 dark:border-white/10"
+                  >
+                    <div className="mb-2 flex items-start justify-between gap-2">
+                      <Link
+                        href={routes.product({
+                          id: item.productId,
+                          name: item.name,
+                        })}
+                        className="hover:text-primary text-sm font-semibold text-black dark:text-white"
+                      >
+                        {item.name}
+                      </Link>
+                      <button
+                        type="button"
+                        onClick={() => remove(item.productId)}
+                        aria-label={`Remove ${item.name}`}
+                        className="text-body-color shrink-0 cursor-pointer hover:text-red-600"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                    <div className="flex gap-2">
+                      <QuantityInput
+                        value={item.quantity}
+                        onChange={(quantity) => {
+                          update(item.productId, { quantity });
+                          clearError(`items.${index}.quantity`);
+                        }}
+                        aria-label={`Quantity of ${item.name}`}
+                        {...errorProps(`items.${index}.quantity`)}
+                        className={`${inputClassName} w-20 shrink-0`}
+                      />
+                      <input
+                        type="text"
+                        value={item.notes}
+                        onChange={(e) => {
+                          update(item.productId, { notes: e.target.value });
+                          clearError(`items.${index}.notes`);
+                        }}
+                        placeholder="Notes"
+                        maxLength={500}
+                        aria-label={`Notes for ${item.name}`}
+                        {...errorProps(`items.${index}.notes`)}
+                        className={inputClassName}
+                      />
+                    </div>
+                    <FieldError
+                      field={`items.${index}.quantity`}
+                      errors={errors}
+                      idPrefix={ERROR_ID_PREFIX}
+                    />
+                    <FieldError
+                      field={`items.${index}.notes`}
+                      errors={errors}
+                      idPrefix={ERROR_ID_PREFIX}
+                    />
+                  </li>
+                ))}
+              </ul>
+
+              <div className="space-y-3">
+                <h3 className="font-medium text-black dark:text-white">
+                  Your Details
+                </h3>
+                <input
+                  name="name"
+                  value={contact.name}
+                  onChange={handleContactChange}
+                  placeholder="Your name"
+                  required
+                  {...errorProps(`name`)}
+                  className={inputClassName}
+                />
+                <FieldError
+                  field="name"
+                  errors={errors}
+                  idPrefix={ERROR_ID_PREFIX}
+                />
+                <input
+                  name="companyName"
+                  value={contact.companyName}
+                  onChange={handleContactChange}
+                  placeholder="Company name"
+                  required
+                  {...errorProps(`companyName`)}
+                  className={inputClassName}
+                />
+                <FieldError
+                  field="companyName"
+                  errors={errors}
+                  idPrefix={ERROR_ID_PREFIX}
+                />
+                <input
+                  type="email"
+                  name="email"
+                  value={contact.email}
+                  onChange={handleContactChange}
+                  placeholder="Email"
+                  required
+                  {...errorProps(`email`)}
+                  className={inputClassName}
+                />
+                <FieldError
+                  field="email"
+                  errors={errors}
+                  idPrefix={ERROR_ID_PREFIX}
+                />
+                <input
+                  type="tel"
+                  name="phone"
+                  value={contact.phone}
+                  onChange={handleContactChange}
+                  placeholder="Phone number"
+                  {...errorProps(`phone`)}
+                  className={inputClassName}
+                />
+                <FieldError
+                  field="phone"
+                  errors={errors}
+                  idPrefix={ERROR_ID_PREFIX}
+                />
+                <textarea
+                  name="message"
+                  rows={3}
+                  value={contact.message}
+                  onChange={handleContactChange}
+                  placeholder="Anything else we should know? (optional)"
+                  {...errorProps(`message`)}
+                  className={`${inputClassName} resize-none`}
+                />
+                <FieldError
+                  field="message"
+                  errors={errors}
+                  idPrefix={ERROR_ID_PREFIX}
+                />
+              </div>
+
+              <button
+                type="submit"
+                disabled={submitting}
+                className="bg-primary hover:bg-primary/90 w-full cursor-pointer rounded-md px-6 py-3 font-medium text-white disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                {submitting ? "Sending..." : "Request Quote"}
+              </button>
+            </form>
+          )}
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,141 @@
+"use client";
+
+import { createContext, useCallback, useContext } from "react";
+import {
+  MAX_LINE_ITEMS,
+  MAX_LINE_QUANTITY,
+  quoteItemSchema,
+} from "@/lib/enquiry/schema";
+import { useStoredState } from "@/lib/hooks/useStoredState";
+import { Products } from "@/types/products";
+import { QuoteItem } from "@/types/quote";
+
+const STORAGE_KEY = "quote-basket";
+
+/** Keeps the valid lines, so one bad entry doesn't empty the whole basket */
+const parseItems = (stored: unknown) => {
+  if (!Array.isArray(stored)) return undefined;
+  return stored
+    .flatMap((item) => {
+      const result = quoteItemSchema.safeParse(item);
+      return result.success ? [result.data as QuoteItem] : [];
+    })
+    .slice(0, MAX_LINE_ITEMS);
+};
+
+interface QuoteBasketContextValue {
+  items: QuoteItem[];
+  /** Total units across all lines, shown on the header badge */
+  count: number;
+  /** At the most lines an enquiry takes, new products can't be added */
+  isFull: boolean;
+  has: (productId: number) => boolean;
+  /** Add a product, topping up the quantity when it's already in the basket */
+  add: (product: Products, quantity?: number, notes?: string) => void;
+  update: (
+    productId: number,
+    changes: Partial<Pick<QuoteItem, "quantity" | "notes">>,
+  ) => void;
+  remove: (productId: number) => void;
+  clear: () => void;
+}
+
+const QuoteBasketContext = createContext<QuoteBasketContextValue>({
+  items: [],
+  count: 0,
+  isFull: false,
+  has: () => false,
+  add: () => {},
+  update: () => {},
+  remove: () => {},
+  clear: () => {},
+});
+
+export function QuoteBasketProvider({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  const [items, setItems] = useStoredState<QuoteItem[]>(
+    STORAGE_KEY,
+    [],
+    parseItems,
+  );
+
+  const add = useCallback(
+    (product: Products, quantity = 1, notes = "") => {
+      if (product.id === undefined) return;
+
+      setItems((current) => {
+        const existing = current.find((i) => i.productId === product.id);
+        if (existing) {
+          return current.map((i) =>
+            i.productId === product.id
+              ? {
+                  ...i,
+                  quantity: Math.min(MAX_LINE_QUANTITY, i.quantity + quantity),
+                  notes: notes || i.notes,
+                }
+              : i,
+          );
+        }
+        if (current.length >= MAX_LINE_ITEMS) return current;
+        return [
+          ...current,
+          {
+            productId: product.id!,
+            name: product.name,
+            imageUrl: product.imageUrls?.[0],
+            quantity: Math.min(MAX_LINE_QUANTITY, quantity),
+            notes,
+          },
+        ];
+      });
+    },
+    [setItems],
+  );
+
+  const update = useCallback<QuoteBasketContextValue["update"]>(
+    (productId, changes) => {
+      setItems((current) =>
+        current.map((i) =>
+          i.productId === productId ? { ...i, ...changes } : i,
+        ),
+      );
+    },
+    [setItems],
+  );
+
+  const remove = useCallback(
+    (productId: number) => {
+      setItems((current) => current.filter((i) => i.productId !== productId));
+    },
+    [setItems],
+  );
+
+  const clear = useCallback(() => setItems([]), [setItems]);
+
+  const has = useCallback(
+    (productId: number) => items.some((i) => i.productId === productId),
+    [items],
+  );
+
+  return (
+    <QuoteBasketContext.Provider
+      value={{
+        items,
+        count: items.reduce((total, i) => total + i.quantity, 0),
+        isFull: items.length >= MAX_LINE_ITEMS,
+        has,
+        add,
+        update,
+        remove,
+        clear,
+      }}
+    >
+      {children}
+    </QuoteBasketContext.Provider>
+  );
+}
+
+export const useQuoteBasket = () => useContext(QuoteBasketContext);
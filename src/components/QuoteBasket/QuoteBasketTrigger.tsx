@@ -0,0 +1,27 @@
+"use client";
+
+import { ClipboardList } from "lucide-react";
+import { useQuoteBasket } from "./QuoteBasketProvider";
+
+/** Header button that opens the quote basket, badged with the units in it */
+const QuoteBasketTrigger = ({ onClick }: { onClick: () => void }) => {
+  const { count } = useQuoteBasket();
+
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      aria-label={`Quote basket, ${count} items`}
+      className="text-dark hover:text-primary relative flex h-9 w-9 cursor-pointer items-center justify-center dark:text-white"
+    >
+      <ClipboardList className="h-5 w-5" />
+      {count > 0 && (
+        <span className="bg-primary absolute -top-1 -right-1 flex h-5 min-w-5 items-center justify-center rounded-full px-1 text-xs text-white">
+          {count}
+        </span>
+      )}
+    </button>
+  );
+};
+
+export default QuoteBasketTrigger;
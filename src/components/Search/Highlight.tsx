@@ -0,0 +1,33 @@
+import { Fragment } from "react";
+import { searchTerms } from "@/lib/helper/text";
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/** Wrap every occurrence of the query's terms in `<mark>` */
+const Highlight = ({ text, query }: { text: string; query: string }) => {
+  const terms = searchTerms(query);
+  if (terms.length === 0) return <>{text}</>;
+
+  const pattern = new RegExp(`(${terms.map(escapeRegExp).join("|")})`, "gi");
+
+  return (
+    <>
+      {text.split(pattern).map((part, index) =>
+        // Odd indexes are the captured matches
+        index % 2 === 1 ? (
+          <mark
+            key={index}
+            className="bg-primary/15 text-primary rounded-xs px-0.5"
+          >
+            {part}
+          </mark>
+        ) : (
+          <Fragment key={index}>{part}</Fragment>
+        ),
+      )}
+    </>
+  );
+};
+
+export default Highlight;
@@ -0,0 +1,77 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Clock, Search } from "lucide-react";
+import { useRecentSearches } from "@/lib/hooks/useRecentSearches";
+import { routes } from "@/lib/routes";
+
+/** Query box for the search page, remembering searches like the palette does */
+const SearchForm = ({ query }: { query: string }) => {
+  const router = useRouter();
+  const { recent, addRecent } = useRecentSearches();
+  const [value, setValue] = useState(query);
+
+  // Record searches arriving from links and the palette too
+  useEffect(() => {
+    setValue(query);
+    addRecent(query);
+  }, [query, addRecent]);
+
+  const search = (next: string) => {
+    if (!next.trim()) return;
+    router.push(routes.search(next));
+  };
+
+  return (
+    <div className="mb-10">
+      <form
+        role="search"
+        onSubmit={(e) => {
+          e.preventDefault();
+          search(value);
+        }}
+        className="flex gap-2"
+      >
+        <label htmlFor="site-search" className="sr-only">
+          Search the site
+        </label>
+        <input
+          id="site-search"
+          type="search"
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          placeholder="Search products, news, projects and pages..."
+          className="border-stroke dark:text-body-color-dark dark:shadow-two text-body-color focus:border-primary dark:focus:border-primary w-full rounded-xs border bg-[#f8f8f8] px-6 py-3 text-base outline-hidden dark:border-transparent dark:bg-[#2C303B] dark:focus:shadow-none"
+        />
+        <button
+          type="submit"
+          aria-label="Search"
+          className="bg-primary hover:bg-primary/90 flex shrink-0 cursor-pointer items-center gap-2 rounded-xs px-6 text-base font-medium text-white"
+        >
+          <Search className="h-5 w-5" />
+          <span className="hidden sm:inline">Search</span>
+        </button>
+      </form>
+
+      {!query && recent.length > 0 && (
+        <div className="mt-4 flex flex-wrap items-center gap-2">
+          <span className="text-body-color text-sm">Recent:</span>
+          {recent.map((q) => (
+            <button
+              key={q}
+              type="button"
+              onClick={() => search(q)}
+              className="text-body-color hover:border-primary hover:text-primary inline-flex cursor-pointer items-center gap-1.5 rounded-full border border-gray-300 px-3 py-1 text-sm dark:border-white/20"
+            >
+              <Clock className="h-3.5 w-3.5" />
+              {q}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SearchForm;
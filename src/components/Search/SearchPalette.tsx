@@ -0,0 +1,305 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import * as Dialog from "@radix-ui/react-dialog";
+import { ArrowRight, Clock, Loader2, Search, X } from "lucide-react";
+import { getSearchResults } from "@/api/api";
+import { MIN_SEARCH_LENGTH } from "@/lib/helper/text";
+import { useRecentSearches } from "@/lib/hooks/useRecentSearches";
+import { routes } from "@/lib/routes";
+import { SearchResults } from "@/types/search";
+import Highlight from "./Highlight";
+
+const DEBOUNCE_MS = 200;
+
+type PaletteItem =
+  | { kind: "recent"; key: string; query: string }
+  | {
+      kind: "result";
+      key: string;
+      href: string;
+      title: string;
+      snippet?: string;
+    }
+  | { kind: "all"; key: string; href: string };
+
+interface SearchPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/** Ctrl/Cmd+K dialog searching products, news, projects and pages as you type */
+export default function SearchPalette({
+  open,
+  onOpenChange,
+}: SearchPaletteProps) {
+  const router = useRouter();
+  const { recent, addRecent, clearRecent } = useRecentSearches();
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<SearchResults | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [failed, setFailed] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const trimmed = query.trim();
+  const searching = trimmed.length >= MIN_SEARCH_LENGTH;
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if ((event.metaKey || event.ctrlKey) && event.key.toLowerCase() === "k") {
+        event.preventDefault();
+        onOpenChange(!open);
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [open, onOpenChange]);
+
+  useEffect(() => {
+    if (!searching) {
+      setResults(null);
+      setLoading(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    setLoading(true);
+    const timer = setTimeout(() => {
+      getSearchResults(trimmed, { signal: controller.signal })
+        .then(({ data }) => {
+          setResults(data);
+          setFailed(false);
+        })
+        .catch(() => {
+          if (!controller.signal.aborted) setFailed(true);
+        })
+        .finally(() => {
+          if (!controller.signal.aborted) setLoading(false);
+        });
+    }, DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [trimmed, searching]);
+
+  const sections = useMemo(() => {
+    if (!searching) {
+      return recent.length > 0
+        ? [
+            {
+              label: "Recent Searches",
+              items: recent.map(
+                (q): PaletteItem => ({
+                  kind: "recent",
+                  key: `recent-${q}`,
+                  query: q,
+                }),
+              ),
+            },
+          ]
+        : [];
+    }
+    return [
+      ...(results?.groups || []).map((group) => ({
+        label: group.label,
+        items: group.results.map(
+          (result): PaletteItem => ({ kind: "result", ...result }),
+        ),
+      })),
+      {
+        label: "",
+        items: [
+          {
+            kind: "all",
+            key: "all",
+            href: routes.search(trimmed),
+          } as PaletteItem,
+        ],
+      },
+    ];
+  }, [searching, recent, results, trimmed]);
+
+  const items = sections.flatMap((section) => section.items);
+
+  useEffect(() => setActiveIndex(0), [results, searching]);
+
+  useEffect(() => {
+    document
+      .getElementById(`search-option-${activeIndex}`)
+      ?.scrollIntoView({ block: "nearest" });
+  }, [activeIndex]);
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) setQuery("");
+    onOpenChange(next);
+  };
+
+  const select = (item: PaletteItem) => {
+    if (item.kind === "recent") {
+      setQuery(item.query);
+      return;
+    }
+    addRecent(trimmed);
+    handleOpenChange(false);
+    router.push(item.href);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+      event.preventDefault();
+      if (items.length === 0) return;
+      const step = event.key === "ArrowDown" ? 1 : -1;
+      setActiveIndex((index) => (index + step + items.length) % items.length);
+    } else if (event.key === "Enter" && items[activeIndex]) {
+      event.preventDefault();
+      select(items[activeIndex]);
+    }
+  };
+
+  let position = -1;
+
+  return (
+    <Dialog.Root open={open} onOpenChange={handleOpenChange}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 z-2040 bg-black/60" />
+        <Dialog.Content
+          aria-describedby={undefined}
+          className="dark:bg-gray-dark fixed top-[10vh] left-1/2 z-2050 flex max-h-[75vh] w-[calc(100%-2rem)] max-w-2xl -translate-x-1/2 flex-col overflow-hidden rounded-md bg-white shadow-2xl"
+        >
+          <Dialog.Title className="sr-only">Search the site</Dialog.Title>
+          <div className="flex items-center gap-3 border-b border-gray-200 px-4 dark:border-white/10">
+            {loading ? (
+              <Loader2 className="text-body-color h-5 w-5 shrink-0 animate-spin" />
+            ) : (
+              <Search className="text-body-color h-5 w-5 shrink-0" />
+            )}
+            <input
+              type="text"
+              role="combobox"
+              aria-expanded={items.length > 0}
+              aria-controls="search-palette-list"
+              aria-activedescendant={
+                items[activeIndex] ? `search-option-${activeIndex}` : undefined
+              }
+              autoComplete="off"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={handleKeyDown}
+              placeholder="Search products, news, projects and pages..."
+              className="h-14 flex-1 bg-transparent text-base text-black outline-none dark:text-white"
+            />
+            <Dialog.Close
+              aria-label="Close search"
+              className="text-body-color hover:text-primary cursor-pointer"
+            >
+              <X className="h-5 w-5" />
+            </Dialog.Close>
+          </div>
+
+          <div
+            id="search-palette-list"
+            role="listbox"
+            aria-label="Search results"
+            className="overflow-y-auto p-2"
+          >
+            {sections.map((section) => (
+              <div
+                key={section.label || "footer"}
+                role="group"
+                aria-label={section.label || undefined}
+              >
+                {section.label && (
+                  <div className="flex items-center justify-between px-3 pt-3 pb-1 text-xs font-semibold tracking-wide text-gray-500 uppercase">
+                    {section.label}
+                    {!searching && (
+                      <button
+                        type="button"
+                        onClick={clearRecent}
+                        className="hover:text-primary cursor-pointer normal-case"
+                      >
+                        Clear
+                      </button>
+                    )}
+                  </div>
+                )}
+                {section.items.map((item) => {
+                  position += 1;
+                  const index = position;
+                  const active = index === activeIndex;
+
+                  return (
+                    <div
+                      key={item.key}
+                      id={`search-option-${index}`}
+                      role="option"
+                      aria-selected={active}
+                      onMouseMove={() => setActiveIndex(index)}
+                      onClick={() => select(item)}
+                      className={`flex cursor-pointer items-center gap-3 rounded-md px-3 py-2 ${
+                        active ? "bg-primary/10" : ""
+                      }`}
+                    >
+                      {item.kind === "recent" && (
+                        <>
+                          <Clock className="h-4 w-4 shrink-0 text-gray-400" />
+                          <span className="text-black dark:text-white">
+                            {item.query}
+                          </span>
+                        </>
+                      )}
+                      {item.kind === "result" && (
+                        <div className="min-w-0">
+                          <p className="truncate font-medium text-black dark:text-white">
+                            <Highlight text={item.title} query={trimmed} />
+                          </p>
+                          {item.snippet && (
+                            <p className="text-body-color dark:text-body-color-dark truncate text-sm">
+                              <Highlight text={item.snippet} query={trimmed} />
+                            </p>
+                          )}
+                        </div>
+                      )}
+                      {item.kind === "all" && (
+                        <>
+                          <ArrowRight className="text-primary h-4 w-4 shrink-0" />
+                          <span className="text-primary font-medium">
+                            See all results for &ldquo;{trimmed}&rdquo;
+                          </span>
+                        </>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            ))}
+
+            {searching && !loading && results?.groups.length === 0 && (
+              <p className="text-body-color px-3 py-2 text-sm">
+                No matches yet, try fewer or different words.
+              </p>
+            )}
+            {failed && (
+              <p className="text-body-color px-3 py-2 text-sm">
+                Search is unavailable right now, please try again.
+              </p>
+            )}
+            {!searching && recent.length === 0 && (
+              <p className="text-body-color px-3 py-6 text-center text-sm">
+                Type at least {MIN_SEARCH_LENGTH} characters to search.
+              </p>
+            )}
+          </div>
+
+          <div className="hidden gap-4 border-t border-gray-200 px-4 py-2 text-xs text-gray-500 sm:flex dark:border-white/10">
+            <span>↑↓ to navigate</span>
+            <span>Enter to open</span>
+            <span>Esc to close</span>
+          </div>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
@@ -0,0 +1,30 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Search } from "lucide-react";
+
+/** Header button that opens the search palette, showing the platform's shortcut */
+const SearchTrigger = ({ onClick }: { onClick: () => void }) => {
+  const [shortcut, setShortcut] = useState("Ctrl K");
+
+  useEffect(() => {
+    if (/Mac|iPhone|iPad/.test(navigator.userAgent)) setShortcut("⌘K");
+  }, []);
+
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      aria-label="Search"
+      aria-keyshortcuts="Control+K Meta+K"
+      className="text-body-color hover:text-primary flex h-9 cursor-pointer items-center gap-2 rounded-full px-2 dark:text-white"
+    >
+      <Search className="h-5 w-5" />
+      <kbd className="hidden rounded-xs border border-gray-300 px-1.5 py-0.5 font-sans text-xs text-gray-500 2xl:inline dark:border-white/20">
+        {shortcut}
+      </kbd>
+    </button>
+  );
+};
+
+export default SearchTrigger;
@@ -0,0 +1,34 @@
+"use client";
+
+import { useState } from "react";
+import { X } from "lucide-react";
+import { useServiceStatus } from "./ServiceStatusProvider";
+
+export default function DegradedBanner() {
+  const { degraded } = useServiceStatus();
+  const [dismissed, setDismissed] = useState(false);
+
+  if (!degraded || dismissed) return null;
+
+  return (
+    <div
+      role="status"
+      className="border-b border-yellow-300 bg-yellow-50 text-yellow-900 dark:border-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-100"
+    >
+      <div className="container flex items-center justify-between gap-4 py-2 text-sm">
+        <p>
+          Some content is temporarily unavailable. Please refresh the page in a
+          few minutes.
+        </p>
+        <button
+          type="button"
+          onClick={() => setDismissed(true)}
+          aria-label="Dismiss notice"
+          className="shrink-0 rounded-xs p-1 hover:bg-yellow-100 dark:hover:bg-yellow-800/40"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,13 @@
+"use client";
+
+import { useEffect } from "react";
+import { useServiceStatus } from "./ServiceStatusProvider";
+
+/** Rendered by server pages that fell back to cached or empty data */
+export default function ReportDegraded() {
+  const { reportDegraded } = useServiceStatus();
+
+  useEffect(() => reportDegraded(), [reportDegraded]);
+
+  return null;
+}
@@ -0,0 +1,39 @@
+"use client";
+
+import { createContext, useCallback, useContext, useState } from "react";
+
+interface ServiceStatusContextValue {
+  degraded: boolean;
+  /** Register a section rendered with fallback data, returns the unregister callback */
+  reportDegraded: () => () => void;
+}
+
+const ServiceStatusContext = createContext<ServiceStatusContextValue>({
+  degraded: false,
+  reportDegraded: () => () => {},
+});
+
+export function ServiceStatusProvider({
+  initialDegraded = false,
+  children,
+}: {
+  initialDegraded?: boolean;
+  children: React.ReactNode;
+}) {
+  const [reports, setReports] = useState(0);
+
+  const reportDegraded = useCallback(() => {
+    setReports((count) => count + 1);
+    return () => setReports((count) => count - 1);
+  }, []);
+
+  return (
+    <ServiceStatusContext.Provider
+      value={{ degraded: initialDegraded || reports > 0, reportDegraded }}
+    >
+      {children}
+    </ServiceStatusContext.Provider>
+  );
+}
+
+export const useServiceStatus = () => useContext(ServiceStatusContext);
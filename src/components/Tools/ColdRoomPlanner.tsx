@@ -0,0 +1,684 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import toast from "react-hot-toast";
+import {
+  ArrowRight,
+  DoorOpen,
+  Eraser,
+  FileJson,
+  Image as ImageIcon,
+  PenLine,
+  SplitSquareVertical,
+  Trash2,
+  Undo2,
+  Upload,
+} from "lucide-react";
+import {
+  DOOR_TYPES,
+  DoorType,
+  GridPoint,
+  PANEL_WIDTH,
+  RoomPlan,
+  buildBillOfMaterials,
+  eraseAt,
+  isHorizontal,
+  newId,
+  placeDoor,
+  pointAlong,
+  rectangleWalls,
+  segmentCells,
+  straightSegment,
+} from "@/lib/calculators/coldRoomLayout";
+import { STANDARD_THICKNESSES } from "@/lib/calculators/panelThickness";
+import { roomPlanSchema } from "@/lib/enquiry/schema";
+import { EnquiryTypeEnum } from "@/lib/enum/enquiryType";
+import { useRoomPlan } from "@/lib/hooks/useRoomPlan";
+import { routes } from "@/lib/routes";
+import { EnquiryRoomLayout } from "@/types/enquiry";
+import { inputClassName, labelClassName } from "./formStyles";
+
+type Tool = "wall" | "partition" | "door" | "erase";
+
+const TOOLS: { tool: Tool; label: string; icon: typeof PenLine }[] = [
+  { tool: "wall", label: "Wall", icon: PenLine },
+  { tool: "partition", label: "Partition", icon: SplitSquareVertical },
+  { tool: "door", label: "Door", icon: DoorOpen },
+  { tool: "erase", label: "Erase", icon: Eraser },
+];
+
+const TOOL_HINTS: Record<Tool, string> = {
+  wall: "Click a start point, then an end point, to draw an outside wall.",
+  partition: "Click a start point, then an end point, to split the room.",
+  door: "Click a point on a wall or partition, the door opens from there.",
+  erase: "Click a door, wall or partition to remove it.",
+};
+
+/** Door openings offered, in grid cells */
+const DOOR_WIDTHS = [2, 3, 4];
+
+/** Drawing scale, px per grid cell */
+const CELL_PX = 20;
+const MAX_UNDO = 50;
+
+// Plain colours rather than classes, so the PNG export looks the same
+const COLORS = {
+  background: "#ffffff",
+  minorGrid: "#eef0f3",
+  majorGrid: "#d7dbe1",
+  wall: "#1d2144",
+  partition: "#6b7280",
+  door: "#e63946",
+  label: "#4b5563",
+  preview: "#e63946",
+};
+
+const ENQUIRY_SOURCE = "/tools/layout-planner";
+
+const download = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Some browsers start the download asynchronously, revoking right away can cancel it
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+const toolButtonClassName = (active: boolean) =>
+  `inline-flex cursor-pointer items-center gap-2 rounded-md border px-4 py-2 text-sm font-medium ${
+    active
+      ? "border-primary bg-primary text-white"
+      : "border-stroke text-body-color hover:border-primary hover:text-primary dark:text-body-color-dark dark:border-white/10"
+  }`;
+
+const actionButtonClassName =
+  "border-stroke text-body-color hover:border-primary hover:text-primary dark:text-body-color-dark inline-flex cursor-pointer items-center gap-2 rounded-md border px-4 py-2 text-sm font-medium disabled:cursor-not-allowed disabled:opacity-50 dark:border-white/10";
+
+export default function ColdRoomPlanner() {
+  const [plan, setPlan] = useRoomPlan();
+  const [history, setHistory] = useState<RoomPlan[]>([]);
+  const [tool, setTool] = useState<Tool>("wall");
+  const [doorType, setDoorType] = useState<DoorType>("hinged");
+  const [doorWidth, setDoorWidth] = useState(DOOR_WIDTHS[0]);
+  const [start, setStart] = useState<GridPoint | null>(null);
+  const [hover, setHover] = useState<GridPoint | null>(null);
+  const [room, setRoom] = useState({ length: "6", width: "4" });
+  const [roomHeight, setRoomHeight] = useState(String(plan.roomHeight));
+  const svgRef = useRef<SVGSVGElement>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const bom = buildBillOfMaterials(plan);
+  const hasDrawing = plan.segments.length > 0;
+  const metres = (cells: number) => cells * plan.cellSize;
+
+  const update = (next: RoomPlan) => {
+    setHistory((current) => [...current, plan].slice(-MAX_UNDO));
+    setPlan(next);
+  };
+
+  const undo = () => {
+    const previous = history[history.length - 1];
+    if (!previous) return;
+    setHistory((current) => current.slice(0, -1));
+    setPlan(previous);
+    setStart(null);
+  };
+
+  // The saved plan is only read after mount
+  useEffect(() => {
+    setRoomHeight((current) =>
+      Number(current) === plan.roomHeight ? current : String(plan.roomHeight),
+    );
+  }, [plan.roomHeight]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLElement && e.target.closest("input, select"))
+        return;
+      if (e.key === "Escape") setStart(null);
+      if (e.key === "z" && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        undo();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  });
+
+  /** Pointer position in grid cells, unrounded */
+  const toGrid = (e: React.PointerEvent | React.MouseEvent) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * plan.columns,
+      y: ((e.clientY - rect.top) / rect.height) * plan.rows,
+    };
+  };
+
+  const snap = ({ x, y }: { x: number; y: number }): GridPoint => ({
+    x: Math.min(plan.columns, Math.max(0, Math.round(x))),
+    y: Math.min(plan.rows, Math.max(0, Math.round(y))),
+  });
+
+  const handleClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    const position = toGrid(e);
+    const point = snap(position);
+
+    if (tool === "erase") {
+      const next = eraseAt(plan, position);
+      if (next !== plan) update(next);
+      return;
+    }
+
+    if (tool === "door") {
+      const door = placeDoor(plan, point, doorType, doorWidth);
+      if (door) update({ ...plan, doors: [...plan.doors, door] });
+      else toast.error("There's no room for that door there.");
+      return;
+    }
+
+    if (!start) {
+      setStart(point);
+      return;
+    }
+    const segment = straightSegment(start, point);
+    if (!segment) {
+      setStart(null);
+      return;
+    }
+    update({
+      ...plan,
+      segments: [...plan.segments, { ...segment, id: newId(), kind: tool }],
+    });
+    // Carry on from the end just drawn, so a room can be drawn in one go
+    setStart(
+      isHorizontal(segment)
+        ? { x: point.x, y: start.y }
+        : { x: start.x, y: point.y },
+    );
+  };
+
+  const drawRoom = (e: React.FormEvent) => {
+    e.preventDefault();
+    const length = Number(room.length);
+    const width = Number(room.width);
+    if (!(length > 0 && width > 0)) return;
+    update({
+      ...plan,
+      segments: rectangleWalls(plan, length, width),
+      doors: [],
+    });
+    setStart(null);
+  };
+
+  const exportJson = () => {
+    const layout: EnquiryRoomLayout = { plan, billOfMaterials: bom };
+    download(
+      new Blob([JSON.stringify(layout, null, 2)], { type: "application/json" }),
+      "cold-room-layout.json",
+    );
+  };
+
+  const exportImage = () => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const width = plan.columns * CELL_PX * 2;
+    const height = plan.rows * CELL_PX * 2;
+    const clone = svg.cloneNode(true) as SVGSVGElement;
+    clone.querySelectorAll("[data-overlay]").forEach((node) => node.remove());
+    clone.setAttribute("width", String(width));
+    clone.setAttribute("height", String(height));
+
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = width;
+      canvas.height = height;
+      canvas.getContext("2d")?.drawImage(image, 0, 0, width, height);
+      canvas.toBlob((blob) => blob && download(blob, "cold-room-layout.png"));
+    };
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(
+      new XMLSerializer().serializeToString(clone),
+    )}`;
+  };
+
+  const importJson = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      const json = JSON.parse(await file.text());
+      // Accept the exported layout or a bare plan
+      const result = roomPlanSchema.safeParse(json?.plan ?? json);
+      if (!result.success) throw result.error;
+      update(result.data as RoomPlan);
+      setStart(null);
+      toast.success("Layout imported.");
+    } catch {
+      toast.error("That file isn't a layout exported from this planner.");
+    }
+  };
+
+  const preview = start && hover && straightSegment(start, hover);
+  const wallWidth = Math.max(
+    3,
+    (plan.panelThickness / (plan.cellSize * 1000)) * CELL_PX,
+  );
+
+  return (
+    <div className="-mx-4 flex flex-wrap">
+      <div className="w-full px-4 lg:w-8/12">
+        <div className="shadow-three dark:bg-gray-dark mb-12 rounded-xs bg-white p-6 sm:p-8 lg:mb-0">
+          <div
+            role="toolbar"
+            aria-label="Drawing tools"
+            className="mb-4 flex flex-wrap gap-2"
+          >
+            {TOOLS.map(({ tool: value, label, icon: Icon }) => (
+              <button
+                key={value}
+                type="button"
+                aria-pressed={tool === value}
+                onClick={() => {
+                  setTool(value);
+                  setStart(null);
+                }}
+                className={toolButtonClassName(tool === value)}
+              >
+                <Icon className="h-4 w-4" />
+                {label}
+              </button>
+            ))}
+            <button
+              type="button"
+              onClick={undo}
+              disabled={history.length === 0}
+              className={actionButtonClassName}
+            >
+              <Undo2 className="h-4 w-4" />
+              Undo
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                update({ ...plan, segments: [], doors: [] });
+                setStart(null);
+              }}
+              disabled={!hasDrawing}
+              className={actionButtonClassName}
+            >
+              <Trash2 className="h-4 w-4" />
+              Clear
+            </button>
+          </div>
+
+          {tool === "door" && (
+            <div className="mb-4 flex flex-wrap gap-4">
+              <select
+                aria-label="Door type"
+                value={doorType}
+                onChange={(e) => setDoorType(e.target.value as DoorType)}
+                className={`${inputClassName} sm:w-auto`}
+              >
+                {(Object.keys(DOOR_TYPES) as DoorType[]).map((type) => (
+                  <option key={type} value={type}>
+                    {DOOR_TYPES[type]}
+                  </option>
+                ))}
+              </select>
+              <select
+                aria-label="Door opening"
+                value={doorWidth}
+                onChange={(e) => setDoorWidth(Number(e.target.value))}
+                className={`${inputClassName} sm:w-auto`}
+              >
+                {DOOR_WIDTHS.map((width) => (
+                  <option key={width} value={width}>
+                    {metres(width).toFixed(1)} m opening
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <p className="text-body-color dark:text-body-color-dark mb-4 text-sm">
+            {TOOL_HINTS[tool]} Each square is {plan.cellSize} m.
+          </p>
+
+          <svg
+            ref={svgRef}
+            xmlns="http://www.w3.org/2000/svg"
+            viewBox={`0 0 ${plan.columns * CELL_PX} ${plan.rows * CELL_PX}`}
+            role="img"
+            aria-label={`Cold room layout, ${bom.floorArea.toFixed(1)} m² floor area`}
+            onClick={handleClick}
+            onPointerMove={(e) => setHover(snap(toGrid(e)))}
+            onPointerLeave={() => setHover(null)}
+            className="w-full cursor-crosshair touch-none rounded-xs border border-gray-200 select-none dark:border-white/10"
+          >
+            <defs>
+              <pattern
+                id="planner-grid"
+                width={CELL_PX * 2}
+                height={CELL_PX * 2}
+                patternUnits="userSpaceOnUse"
+              >
+                <path
+                  d={`M ${CELL_PX} 0 V ${CELL_PX * 2} M 0 ${CELL_PX} H ${CELL_PX * 2}`}
+                  stroke={COLORS.minorGrid}
+                  fill="none"
+                />
+                <path
+                  d={`M 0 0 H ${CELL_PX * 2} M 0 0 V ${CELL_PX * 2}`}
+                  stroke={COLORS.majorGrid}
+                  fill="none"
+                />
+              </pattern>
+            </defs>
+            <rect width="100%" height="100%" fill={COLORS.background} />
+            <rect width="100%" height="100%" fill="url(#planner-grid)" />
+
+            {plan.segments.map((segment) => {
+              const { from, to } = segment;
+              const horizontal = isHorizontal(segment);
+              return (
+                <g key={segment.id}>
+                  <line
+                    x1={from.x * CELL_PX}
+                    y1={from.y * CELL_PX}
+                    x2={to.x * CELL_PX}
+                    y2={to.y * CELL_PX}
+                    stroke={
+                      segment.kind === "wall" ? COLORS.wall : COLORS.partition
+                    }
+                    strokeWidth={
+                      segment.kind === "wall" ? wallWidth : wallWidth * 0.75
+                    }
+                    strokeLinecap="square"
+                  />
+                  <text
+                    x={((from.x + to.x) / 2) * CELL_PX + (horizontal ? 0 : 8)}
+                    y={((from.y + to.y) / 2) * CELL_PX + (horizontal ? -8 : 4)}
+                    textAnchor={horizontal ? "middle" : "start"}
+                    fontSize="11"
+                    fontFamily="sans-serif"
+                    fill={COLORS.label}
+                  >
+                    {metres(segmentCells(segment)).toFixed(1)} m
+                  </text>
+                </g>
+              );
+            })}
+
+            {plan.doors.map((door) => {
+              const segment = plan.segments.find(
+                (s) => s.id === door.segmentId,
+              );
+              if (!segment) return null;
+              const hinge = pointAlong(segment, door.offset);
+              const end = pointAlong(segment, door.offset + door.width);
+              const horizontal = isHorizontal(segment);
+              const size = door.width * CELL_PX;
+              const [hx, hy] = [hinge.x * CELL_PX, hinge.y * CELL_PX];
+              const [ex, ey] = [end.x * CELL_PX, end.y * CELL_PX];
+              // Leaves swing, and sliders park, below or right of the wall
+              const [lx, ly] = horizontal ? [hx, hy + size] : [hx + size, hy];
+
+              return (
+                <g key={door.id} fill="none" stroke={COLORS.door}>
+                  <line
+                    x1={hx}
+                    y1={hy}
+                    x2={ex}
+                    y2={ey}
+                    stroke={COLORS.background}
+                    strokeWidth={wallWidth + 1}
+                  />
+                  {door.type === "hinged" ? (
+                    <>
+                      <line x1={hx} y1={hy} x2={lx} y2={ly} strokeWidth={2} />
+                      <path
+                        d={`M ${lx} ${ly} A ${size} ${size} 0 0 ${horizontal ? 0 : 1} ${ex} ${ey}`}
+                        strokeDasharray="4 3"
+                      />
+                    </>
+                  ) : (
+                    <line
+                      x1={hx + (horizontal ? size / 2 : wallWidth + 2)}
+                      y1={hy + (horizontal ? wallWidth + 2 : size / 2)}
+                      x2={ex + (horizontal ? size / 2 : wallWidth + 2)}
+                      y2={ey + (horizontal ? wallWidth + 2 : size / 2)}
+                      strokeWidth={3}
+                    />
+                  )}
+                </g>
+              );
+            })}
+
+            {preview && (
+              <line
+                data-overlay
+                x1={preview.from.x * CELL_PX}
+                y1={preview.from.y * CELL_PX}
+                x2={preview.to.x * CELL_PX}
+                y2={preview.to.y * CELL_PX}
+                stroke={COLORS.preview}
+                strokeWidth={wallWidth}
+                strokeDasharray="6 4"
+                opacity={0.6}
+              />
+            )}
+            {start && (
+              <circle
+                data-overlay
+                cx={start.x * CELL_PX}
+                cy={start.y * CELL_PX}
+                r={5}
+                fill={COLORS.preview}
+              />
+            )}
+            {hover && (
+              <circle
+                data-overlay
+                cx={hover.x * CELL_PX}
+                cy={hover.y * CELL_PX}
+                r={3}
+                fill={COLORS.preview}
+                opacity={0.5}
+              />
+            )}
+          </svg>
+
+          <div className="-mx-4 mt-6 flex flex-wrap">
+            <div className="w-full px-4 sm:w-1/2">
+              <div className="mb-6">
+                <label htmlFor="panelThickness" className={labelClassName}>
+                  Panel Thickness (mm)
+                </label>
+                <select
+                  id="panelThickness"
+                  value={plan.panelThickness}
+                  onChange={(e) =>
+                    update({ ...plan, panelThickness: Number(e.target.value) })
+                  }
+                  className={inputClassName}
+                >
+                  {STANDARD_THICKNESSES.map((thickness) => (
+                    <option key={thickness} value={thickness}>
+                      {thickness}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div className="w-full px-4 sm:w-1/2">
+              <div className="mb-6">
+                <label htmlFor="roomHeight" className={labelClassName}>
+                  Room Height (m)
+                </label>
+                <input
+                  type="number"
+                  id="roomHeight"
+                  min={1}
+                  max={20}
+                  step="0.1"
+                  value={roomHeight}
+                  onChange={(e) => {
+                    setRoomHeight(e.target.value);
+                    const value = Number(e.target.value);
+                    if (e.target.value !== "" && value >= 1 && value <= 20) {
+                      setPlan({ ...plan, roomHeight: value });
+                    }
+                  }}
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+          </div>
+
+          <form
+            onSubmit={drawRoom}
+            className="flex flex-wrap items-end gap-4 border-t border-gray-200 pt-6 dark:border-white/10"
+          >
+            <div>
+              <label htmlFor="roomLength" className={labelClassName}>
+                Length (m)
+              </label>
+              <input
+                type="number"
+                id="roomLength"
+                min={plan.cellSize}
+                max={metres(plan.columns)}
+                step={plan.cellSize}
+                value={room.length}
+                onChange={(e) => setRoom({ ...room, length: e.target.value })}
+                className={`${inputClassName} sm:w-32`}
+              />
+            </div>
+            <div>
+              <label htmlFor="roomWidth" className={labelClassName}>
+                Width (m)
+              </label>
+              <input
+                type="number"
+                id="roomWidth"
+                min={plan.cellSize}
+                max={metres(plan.rows)}
+                step={plan.cellSize}
+                value={room.width}
+                onChange={(e) => setRoom({ ...room, width: e.target.value })}
+                className={`${inputClassName} sm:w-32`}
+              />
+            </div>
+            <button type="submit" className={actionButtonClassName}>
+              Start From a Rectangle
+            </button>
+          </form>
+        </div>
+      </div>
+
+      <div className="w-full px-4 lg:w-4/12">
+        <div aria-live="polite" className="space-y-6">
+          <div className="border-primary rounded-xs border-l-4 bg-gray-100 p-6 dark:bg-gray-800">
+            <p className="text-body-color dark:text-body-color-dark text-sm">
+              Enclosed floor area
+            </p>
+            <p className="text-4xl font-bold text-black dark:text-white">
+              {bom.floorArea.toFixed(1)} m²
+            </p>
+            <p className="text-body-color dark:text-body-color-dark mt-2 text-sm">
+              {bom.wallLength.toFixed(1)} m of outside wall,{" "}
+              {plan.panelThickness} mm panels, {plan.roomHeight} m high.
+            </p>
+            {hasDrawing ? (
+              <Link
+                href={routes.enquiry({
+                  type: EnquiryTypeEnum.ColdRoomDesign,
+                  source: ENQUIRY_SOURCE,
+                  attachLayout: true,
+                })}
+                className="bg-primary hover:bg-primary/90 mt-4 inline-flex items-center gap-2 rounded-md px-6 py-3 text-base font-medium text-white"
+              >
+                Send to a Cold Room Design Enquiry
+                <ArrowRight className="h-4 w-4" />
+              </Link>
+            ) : (
+              <p className="text-body-color dark:text-body-color-dark mt-4 text-sm">
+                Draw the outside walls to see the materials your room needs.
+              </p>
+            )}
+          </div>
+
+          {bom.lines.length > 0 && (
+            <div className="overflow-hidden rounded-xs border border-gray-200 dark:border-white/10">
+              <table className="w-full text-left text-sm">
+                <thead className="bg-gray-100 dark:bg-gray-800">
+                  <tr>
+                    <th className="px-4 py-2">Item</th>
+                    <th className="px-4 py-2 text-right">Qty</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {bom.lines.map((line) => (
+                    <tr
+                      key={line.key}
+                      className="border-t border-gray-200 dark:border-white/10"
+                    >
+                      <td className="px-4 py-2">{line.description}</td>
+                      <td className="px-4 py-2 text-right whitespace-nowrap">
+                        {line.quantity} {line.unit}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="flex flex-wrap gap-2">
+            <button
+              type="button"
+              onClick={exportImage}
+              disabled={!hasDrawing}
+              className={actionButtonClassName}
+            >
+              <ImageIcon className="h-4 w-4" />
+              Export PNG
+            </button>
+            <button
+              type="button"
+              onClick={exportJson}
+              disabled={!hasDrawing}
+              className={actionButtonClassName}
+            >
+              <FileJson className="h-4 w-4" />
+              Export JSON
+            </button>
+            <button
+              type="button"
+              onClick={() => fileRef.current?.click()}
+              className={actionButtonClassName}
+            >
+              <Upload className="h-4 w-4" />
+              Import JSON
+            </button>
+            <input
+              ref={fileRef}
+              type="file"
+              accept="application/json,.json"
+              onChange={importJson}
+              className="hidden"
+            />
+          </div>
+
+          <p className="text-body-color dark:text-body-color-dark text-xs">
+            Quantities assume {PANEL_WIDTH} m wide panels and are for budgeting
+            only. Our engineers will confirm the panel schedule and trims for
+            your quote.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
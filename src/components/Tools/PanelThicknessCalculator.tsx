@@ -0,0 +1,291 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+import { AlertTriangle, ArrowRight } from "lucide-react";
+import {
+  CORE_TYPES,
+  CoreType,
+  TargetMode,
+  ThicknessInputs,
+  recommendThickness,
+} from "@/lib/calculators/panelThickness";
+import { routes } from "@/lib/routes";
+import { inputClassName, labelClassName } from "./formStyles";
+
+interface PanelThicknessCalculatorProps {
+  initialInputs: ThicknessInputs;
+  /** Active products per `<core>:<thickness>`, e.g. `PIR:100` */
+  productCounts: Record<string, number>;
+}
+
+type Fields = Record<"roomTemp" | "ambientTemp" | "target", string> &
+  Pick<ThicknessInputs, "core" | "targetMode">;
+
+const toNumber = (value: string) => (value.trim() === "" ? NaN : Number(value));
+
+export default function PanelThicknessCalculator({
+  initialInputs,
+  productCounts,
+}: PanelThicknessCalculatorProps) {
+  const pathname = usePathname();
+  const [fields, setFields] = useState<Fields>({
+    ...initialInputs,
+    roomTemp: String(initialInputs.roomTemp),
+    ambientTemp: String(initialInputs.ambientTemp),
+    target: String(initialInputs.target),
+  });
+
+  const inputs = {
+    ...fields,
+    roomTemp: toNumber(fields.roomTemp),
+    ambientTemp: toNumber(fields.ambientTemp),
+    target: toNumber(fields.target),
+  };
+  const valid =
+    Number.isFinite(inputs.roomTemp) &&
+    Number.isFinite(inputs.ambientTemp) &&
+    inputs.target > 0;
+  const result = valid ? recommendThickness(inputs) : null;
+
+  // Keep the URL shareable so a rep can send the exact calculation, without
+  // a server round trip per keystroke
+  useEffect(() => {
+    if (!valid) return;
+    const params = new URLSearchParams({
+      roomTemp: fields.roomTemp,
+      ambientTemp: fields.ambientTemp,
+      core: fields.core,
+      targetMode: fields.targetMode,
+      target: fields.target,
+    });
+    window.history.replaceState(null, "", `${pathname}?${params}`);
+  }, [fields, valid, pathname]);
+
+  const handleChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>,
+  ) =>
+    setFields((current) => ({ ...current, [e.target.name]: e.target.value }));
+
+  const handleTargetModeChange = (targetMode: TargetMode) =>
+    setFields((current) => ({
+      ...current,
+      targetMode,
+      target: targetMode === "uValue" ? "0.2" : "8",
+    }));
+
+  const recommended = result?.recommended;
+  const matchingProducts = recommended
+    ? productCounts[`${fields.core}:${recommended.thickness}`] || 0
+    : 0;
+
+  return (
+    <div className="-mx-4 flex flex-wrap">
+      <div className="w-full px-4 lg:w-1/2">
+        <div className="shadow-three dark:bg-gray-dark mb-12 rounded-xs bg-white px-8 py-11 sm:p-[55px] lg:mb-0 lg:px-8 xl:p-[55px]">
+          <div className="-mx-4 flex flex-wrap">
+            <div className="w-full px-4 md:w-1/2">
+              <div className="mb-8">
+                <label htmlFor="roomTemp" className={labelClassName}>
+                  Room Temperature (°C)
+                </label>
+                <input
+                  type="number"
+                  id="roomTemp"
+                  name="roomTemp"
+                  step="any"
+                  value={fields.roomTemp}
+                  onChange={handleChange}
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+            <div className="w-full px-4 md:w-1/2">
+              <div className="mb-8">
+                <label htmlFor="ambientTemp" className={labelClassName}>
+                  Ambient Temperature (°C)
+                </label>
+                <input
+                  type="number"
+                  id="ambientTemp"
+                  name="ambientTemp"
+                  step="any"
+                  value={fields.ambientTemp}
+                  onChange={handleChange}
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+            <div className="w-full px-4">
+              <div className="mb-8">
+                <label htmlFor="core" className={labelClassName}>
+                  Panel Core
+                </label>
+                <select
+                  id="core"
+                  name="core"
+                  value={fields.core}
+                  onChange={handleChange}
+                  className={inputClassName}
+                >
+                  {(Object.keys(CORE_TYPES) as CoreType[]).map((core) => (
+                    <option key={core} value={core}>
+                      {CORE_TYPES[core].label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div className="w-full px-4">
+              <fieldset className="mb-4">
+                <legend className={labelClassName}>Design Target</legend>
+                <div className="flex flex-wrap gap-6">
+                  {(
+                    [
+                      ["heatLoss", "Max heat loss (W/m²)"],
+                      ["uValue", "Max U-value (W/m²K)"],
+                    ] as [TargetMode, string][]
+                  ).map(([mode, label]) => (
+                    <label
+                      key={mode}
+                      className="text-body-color dark:text-body-color-dark flex cursor-pointer items-center gap-2"
+                    >
+                      <input
+                        type="radio"
+                        name="targetMode"
+                        checked={fields.targetMode === mode}
+                        onChange={() => handleTargetModeChange(mode)}
+                        className="accent-primary h-4 w-4"
+                      />
+                      {label}
+                    </label>
+                  ))}
+                </div>
+              </fieldset>
+              <div className="mb-2">
+                <label htmlFor="target" className="sr-only">
+                  {fields.targetMode === "uValue"
+                    ? "Maximum U-value in W/m²K"
+                    : "Maximum heat loss in W/m²"}
+                </label>
+                <input
+                  type="number"
+                  id="target"
+                  name="target"
+                  min="0"
+                  step="any"
+                  value={fields.target}
+                  onChange={handleChange}
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="w-full px-4 lg:w-1/2">
+        <div aria-live="polite" className="space-y-6">
+          {!result ? (
+            <p className="text-body-color dark:text-body-color-dark">
+              Enter both temperatures and a target above zero to see a
+              recommendation.
+            </p>
+          ) : (
+            <>
+              <div className="border-primary rounded-xs border-l-4 bg-gray-100 p-6 dark:bg-gray-800">
+                {recommended ? (
+                  <>
+                    <p className="text-body-color dark:text-body-color-dark text-sm">
+                      Recommended thickness
+                    </p>
+                    <p className="text-4xl font-bold text-black dark:text-white">
+                      {recommended.thickness} mm {fields.core}
+                    </p>
+                    <p className="text-body-color dark:text-body-color-dark mt-2">
+                      U-value {recommended.uValue.toFixed(3)} W/m²K, heat loss{" "}
+                      {recommended.heatLoss.toFixed(1)} W/m² across{" "}
+                      {result.temperatureDifference} K.
+                    </p>
+                    <Link
+                      href={
+                        matchingProducts > 0
+                          ? routes.products({
+                              coreMaterial: fields.core,
+                              thickness: recommended.thickness,
+                            })
+                          : routes.products({ coreMaterial: fields.core })
+                      }
+                      className="bg-primary hover:bg-primary/90 mt-4 inline-flex items-center gap-2 rounded-md px-6 py-3 text-base font-medium text-white"
+                    >
+                      {matchingProducts > 0
+                        ? `View ${matchingProducts} matching ${matchingProducts === 1 ? "product" : "products"}`
+                        : `View all ${fields.core} panels`}
+                      <ArrowRight className="h-4 w-4" />
+                    </Link>
+                  </>
+                ) : (
+                  <p className="text-black dark:text-white">
+                    No standard {fields.core} panel reaches a U-value of{" "}
+                    {result.requiredUValue.toFixed(3)} W/m²K. Try a PIR core or
+                    contact us for a custom build.
+                  </p>
+                )}
+              </div>
+
+              {result.warnings.map((warning) => (
+                <p
+                  key={warning}
+                  className="flex items-start gap-2 text-sm text-amber-700 dark:text-amber-400"
+                >
+                  <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+                  {warning}
+                </p>
+              ))}
+
+              <div className="overflow-hidden rounded-xs border border-gray-200 dark:border-white/10">
+                <table className="w-full text-left text-sm">
+                  <thead className="bg-gray-100 dark:bg-gray-800">
+                    <tr>
+                      <th className="px-4 py-2">Thickness</th>
+                      <th className="px-4 py-2">U-value (W/m²K)</th>
+                      <th className="px-4 py-2">Heat loss (W/m²)</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.options.map((option) => (
+                      <tr
+                        key={option.thickness}
+                        className={`border-t border-gray-200 dark:border-white/10 ${
+                          option === recommended
+                            ? "bg-primary/10 font-semibold"
+                            : option.meetsTarget
+                              ? ""
+                              : "text-gray-400"
+                        }`}
+                      >
+                        <td className="px-4 py-2">{option.thickness} mm</td>
+                        <td className="px-4 py-2">
+                          {option.uValue.toFixed(3)}
+                        </td>
+                        <td className="px-4 py-2">
+                          {option.heatLoss.toFixed(1)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <p className="text-body-color dark:text-body-color-dark text-xs">
+                Estimates use aged core conductivity and standard surface
+                resistances, ignoring joints and thermal bridges. Our engineers
+                will confirm the final specification with your quote.
+              </p>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,240 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+import { ArrowRight } from "lucide-react";
+import { STANDARD_THICKNESSES } from "@/lib/calculators/panelThickness";
+import {
+  LOAD_INPUT_RANGES,
+  LoadInputs,
+  PRODUCT_TYPES,
+  ProductType,
+  estimateRefrigerationLoad,
+  toLoadQuery,
+} from "@/lib/calculators/refrigerationLoad";
+import { EnquiryTypeEnum } from "@/lib/enum/enquiryType";
+import { routes } from "@/lib/routes";
+import { inputClassName, labelClassName } from "./formStyles";
+
+type NumericField = keyof typeof LOAD_INPUT_RANGES;
+
+type Fields = Record<NumericField, string> & { productType: ProductType };
+
+const NUMERIC_FIELDS: {
+  name: NumericField;
+  label: string;
+  step?: string;
+  /** Shown as a select of standard values instead of a free number */
+  options?: number[];
+}[] = [
+  { name: "length", label: "Length (m)", step: "0.1" },
+  { name: "width", label: "Width (m)", step: "0.1" },
+  { name: "height", label: "Height (m)", step: "0.1" },
+  { name: "setPoint", label: "Set-point (°C)" },
+  { name: "ambientTemp", label: "Ambient Temperature (°C)" },
+  { name: "ambientHumidity", label: "Ambient Humidity (%)" },
+  { name: "dailyThroughput", label: "Daily Throughput (kg/day)" },
+  { name: "productEntryTemp", label: "Product Entry Temperature (°C)" },
+  { name: "doorOpenings", label: "Door Openings per Day" },
+  {
+    name: "panelThickness",
+    label: "PIR Panel Thickness (mm)",
+    options: STANDARD_THICKNESSES,
+  },
+];
+
+const ENQUIRY_SOURCE = "/tools/refrigeration-load";
+
+export default function RefrigerationLoadEstimator({
+  initialInputs,
+}: {
+  initialInputs: LoadInputs;
+}) {
+  const pathname = usePathname();
+  const [fields, setFields] = useState<Fields>(
+    () =>
+      Object.fromEntries(
+        Object.entries(initialInputs).map(([key, value]) => [
+          key,
+          String(value),
+        ]),
+      ) as Fields,
+  );
+
+  const parsed = Object.fromEntries(
+    NUMERIC_FIELDS.map(({ name }) => [
+      name,
+      fields[name].trim() === "" ? NaN : Number(fields[name]),
+    ]),
+  ) as Record<NumericField, number>;
+  const invalid = NUMERIC_FIELDS.filter(({ name }) => {
+    const [min, max] = LOAD_INPUT_RANGES[name];
+    return !(parsed[name] >= min && parsed[name] <= max);
+  });
+  const inputs: LoadInputs | null =
+    invalid.length === 0
+      ? { ...parsed, productType: fields.productType }
+      : null;
+  const estimate = inputs && estimateRefrigerationLoad(inputs);
+  const query = inputs && toLoadQuery(inputs);
+
+  // Keep the URL shareable, without a server round trip per keystroke
+  useEffect(() => {
+    if (query) window.history.replaceState(null, "", `${pathname}?${query}`);
+  }, [query, pathname]);
+
+  const handleChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>,
+  ) =>
+    setFields((current) => ({ ...current, [e.target.name]: e.target.value }));
+
+  return (
+    <div className="-mx-4 flex flex-wrap">
+      <div className="w-full px-4 lg:w-7/12">
+        <div className="shadow-three dark:bg-gray-dark mb-12 rounded-xs bg-white px-8 py-11 sm:p-[55px] lg:mb-0 lg:px-8 xl:p-[55px]">
+          <div className="-mx-4 flex flex-wrap">
+            <div className="w-full px-4">
+              <div className="mb-8">
+                <label htmlFor="productType" className={labelClassName}>
+                  Product Type
+                </label>
+                <select
+                  id="productType"
+                  name="productType"
+                  value={fields.productType}
+                  onChange={handleChange}
+                  className={inputClassName}
+                >
+                  {(Object.keys(PRODUCT_TYPES) as ProductType[]).map((type) => (
+                    <option key={type} value={type}>
+                      {PRODUCT_TYPES[type].label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            {NUMERIC_FIELDS.map(({ name, label, step, options }) => {
+              const [min, max] = LOAD_INPUT_RANGES[name];
+              const isInvalid = invalid.some((field) => field.name === name);
+
+              return (
+                <div key={name} className="w-full px-4 md:w-1/2">
+                  <div className="mb-8">
+                    <label htmlFor={name} className={labelClassName}>
+                      {label}
+                    </label>
+                    {options ? (
+                      <select
+                        id={name}
+                        name={name}
+                        value={fields[name]}
+                        onChange={handleChange}
+                        className={inputClassName}
+                      >
+                        {options.map((option) => (
+                          <option key={option} value={option}>
+                            {option}
+                          </option>
+                        ))}
+                      </select>
+                    ) : (
+                      <input
+                        type="number"
+                        id={name}
+                        name={name}
+                        min={min}
+                        max={max}
+                        step={step ?? "any"}
+                        value={fields[name]}
+                        onChange={handleChange}
+                        aria-invalid={isInvalid}
+                        aria-describedby={
+                          isInvalid ? `${name}-error` : undefined
+                        }
+                        className={inputClassName}
+                      />
+                    )}
+                    {isInvalid && (
+                      <p
+                        id={`${name}-error`}
+                        className="mt-2 text-sm text-red-600"
+                      >
+                        Enter a value from {min} to {max}.
+                      </p>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+
+      <div className="w-full px-4 lg:w-5/12">
+        <div aria-live="polite" className="space-y-6">
+          {!inputs || !estimate ? (
+            <p className="text-body-color dark:text-body-color-dark">
+              Correct the highlighted fields to see an estimate.
+            </p>
+          ) : (
+            <>
+              <div className="border-primary rounded-xs border-l-4 bg-gray-100 p-6 dark:bg-gray-800">
+                <p className="text-body-color dark:text-body-color-dark text-sm">
+                  Estimated refrigeration capacity
+                </p>
+                <p className="text-4xl font-bold text-black dark:text-white">
+                  {estimate.totalKw.toFixed(1)} kW
+                </p>
+                <p className="text-body-color dark:text-body-color-dark mt-2 text-sm">
+                  Sized for {estimate.runHours} running hours a day, including a
+                  10% safety margin.
+                </p>
+                <Link
+                  href={routes.enquiry({
+                    type: EnquiryTypeEnum.ColdRoomDesign,
+                    source: ENQUIRY_SOURCE,
+                    loadQuery: query ?? undefined,
+                  })}
+                  className="bg-primary hover:bg-primary/90 mt-4 inline-flex items-center gap-2 rounded-md px-6 py-3 text-base font-medium text-white"
+                >
+                  Send to a Cold Room Design Enquiry
+                  <ArrowRight className="h-4 w-4" />
+                </Link>
+              </div>
+
+              <div className="overflow-hidden rounded-xs border border-gray-200 dark:border-white/10">
+                <table className="w-full text-left text-sm">
+                  <thead className="bg-gray-100 dark:bg-gray-800">
+                    <tr>
+                      <th className="px-4 py-2">Heat Load</th>
+                      <th className="px-4 py-2 text-right">kW</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {estimate.components.map((component) => (
+                      <tr
+                        key={component.key}
+                        className="border-t border-gray-200 dark:border-white/10"
+                      >
+                        <td className="px-4 py-2">{component.label}</td>
+                        <td className="px-4 py-2 text-right">
+                          {component.kw.toFixed(2)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <p className="text-body-color dark:text-body-color-dark text-xs">
+                A budget estimate for sizing discussions only. Our engineers
+                will confirm the refrigeration plant with a full heat load
+                calculation for your quote.
+              </p>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,6 @@
+/** Field styles matching the enquiry form, shared by the calculators */
+export const inputClassName =
+  "border-stroke text-body-color focus:border-primary dark:text-body-color-dark dark:shadow-two dark:focus:border-primary w-full rounded-xs border bg-[#f8f8f8] px-6 py-3 text-base outline-hidden dark:border-transparent dark:bg-[#2C303B] dark:focus:shadow-none";
+
+export const labelClassName =
+  "text-dark mb-3 block text-sm font-medium dark:text-white";
@@ -0,0 +1,408 @@
+/** A point on the planner grid, counted in cells from the top left */
+export type GridPoint = { x: number; y: number };
+
+export type SegmentKind = "wall" | "partition";
+
+/** A straight, axis aligned run of panels between two grid points */
+export type Segment = {
+  id: string;
+  kind: SegmentKind;
+  from: GridPoint;
+  to: GridPoint;
+};
+
+export type DoorType = "hinged" | "sliding";
+
+export type Door = {
+  id: string;
+  type: DoorType;
+  segmentId: string;
+  /** Cells from the segment's start to the door's near edge */
+  offset: number;
+  /** Clear opening in cells */
+  width: number;
+};
+
+export type RoomPlan = {
+  version: 1;
+  /** Metres per grid cell */
+  cellSize: number;
+  columns: number;
+  rows: number;
+  /** Internal room height, m */
+  roomHeight: number;
+  /** Panel thickness for walls, partitions and ceiling, mm */
+  panelThickness: number;
+  segments: Segment[];
+  doors: Door[];
+};
+
+export const DOOR_TYPES: Record<DoorType, string> = {
+  hinged: "Hinged Door",
+  sliding: "Sliding Door",
+};
+
+export const EMPTY_PLAN: RoomPlan = {
+  version: 1,
+  cellSize: 0.5,
+  columns: 40,
+  rows: 30,
+  roomHeight: 3,
+  panelThickness: 100,
+  segments: [],
+  doors: [],
+};
+
+export const newId = () => Math.random().toString(36).slice(2, 10);
+
+export const isHorizontal = (segment: Pick<Segment, "from" | "to">) =>
+  segment.from.y === segment.to.y;
+
+/** Length in cells */
+export const segmentCells = ({ from, to }: Pick<Segment, "from" | "to">) =>
+  Math.abs(to.x - from.x) + Math.abs(to.y - from.y);
+
+/**
+ * Snap a drag between two points to the dominant axis, ordered so `from` is
+ * the top or left end. Returns null for zero length segments.
+ */
+export function straightSegment(
+  start: GridPoint,
+  end: GridPoint,
+): Pick<Segment, "from" | "to"> | null {
+  const horizontal = Math.abs(end.x - start.x) >= Math.abs(end.y - start.y);
+  const to = horizontal ? { x: end.x, y: start.y } : { x: start.x, y: end.y };
+  if (to.x === start.x && to.y === start.y) return null;
+
+  return horizontal
+    ? {
+        from: { ...start, x: Math.min(start.x, to.x) },
+        to: { ...to, x: Math.max(start.x, to.x) },
+      }
+    : {
+        from: { ...start, y: Math.min(start.y, to.y) },
+        to: { ...to, y: Math.max(start.y, to.y) },
+      };
+}
+
+/** Cells along the segment to the point, or -1 when the point isn't on it */
+export function offsetAlong(segment: Segment, point: GridPoint) {
+  const { from, to } = segment;
+  if (isHorizontal(segment)) {
+    return point.y === from.y && point.x >= from.x && point.x <= to.x
+      ? point.x - from.x
+      : -1;
+  }
+  return point.x === from.x && point.y >= from.y && point.y <= to.y
+    ? point.y - from.y
+    : -1;
+}
+
+/** Grid point at `offset` cells along the segment */
+export const pointAlong = (segment: Segment, offset: number): GridPoint =>
+  isHorizontal(segment)
+    ? { x: segment.from.x + offset, y: segment.from.y }
+    : { x: segment.from.x, y: segment.from.y + offset };
+
+/**
+ * Place a door starting at `point` on the first wall or partition that can
+ * fit it there without overlapping another door
+ */
+export function placeDoor(
+  plan: RoomPlan,
+  point: GridPoint,
+  type: DoorType,
+  width: number,
+): Door | null {
+  for (const segment of plan.segments) {
+    const offset = offsetAlong(segment, point);
+    if (offset < 0 || offset + width > segmentCells(segment)) continue;
+
+    const overlaps = plan.doors.some(
+      (door) =>
+        door.segmentId === segment.id &&
+        offset < door.offset + door.width &&
+        door.offset < offset + width,
+    );
+    if (!overlaps) {
+      return { id: newId(), type, segmentId: segment.id, offset, width };
+    }
+  }
+  return null;
+}
+
+/** Distance in cells from a point to a segment */
+const distanceTo = (segment: Segment, point: { x: number; y: number }) => {
+  const { from, to } = segment;
+  const x = Math.min(Math.max(point.x, from.x), to.x);
+  const y = Math.min(Math.max(point.y, from.y), to.y);
+  return Math.hypot(point.x - x, point.y - y);
+};
+
+/** Remove the door or segment nearest the point, along with its doors */
+export function eraseAt(
+  plan: RoomPlan,
+  point: { x: number; y: number },
+): RoomPlan {
+  const door = plan.doors.find((d) => {
+    const segment = plan.segments.find((s) => s.id === d.segmentId);
+    if (!segment) return false;
+    const centre = pointAlong(segment, d.offset + d.width / 2);
+    return (
+      Math.hypot(point.x - centre.x, point.y - centre.y) <= d.width / 2 + 0.5
+    );
+  });
+  if (door) {
+    return { ...plan, doors: plan.doors.filter((d) => d !== door) };
+  }
+
+  const segment = plan.segments
+    .map((s) => ({ s, distance: distanceTo(s, point) }))
+    .filter(({ distance }) => distance <= 0.5)
+    .sort((a, b) => a.distance - b.distance)[0]?.s;
+  if (!segment) return plan;
+
+  return {
+    ...plan,
+    segments: plan.segments.filter((s) => s !== segment),
+    doors: plan.doors.filter((d) => d.segmentId !== segment.id),
+  };
+}
+
+/** Four walls of a `length` x `width` metre room, centred on the grid */
+export function rectangleWalls(
+  plan: RoomPlan,
+  length: number,
+  width: number,
+): Segment[] {
+  const columns = Math.min(
+    plan.columns,
+    Math.max(1, Math.round(length / plan.cellSize)),
+  );
+  const rows = Math.min(
+    plan.rows,
+    Math.max(1, Math.round(width / plan.cellSize)),
+  );
+  const left = Math.floor((plan.columns - columns) / 2);
+  const top = Math.floor((plan.rows - rows) / 2);
+  const right = left + columns;
+  const bottom = top + rows;
+
+  return [
+    { from: { x: left, y: top }, to: { x: right, y: top } },
+    { from: { x: right, y: top }, to: { x: right, y: bottom } },
+    { from: { x: left, y: bottom }, to: { x: right, y: bottom } },
+    { from: { x: left, y: top }, to: { x: left, y: bottom } },
+  ].map((segment) => ({ ...segment, id: newId(), kind: "wall" }));
+}
+
+/** Effective cover width of one wall or ceiling panel, m */
+export const PANEL_WIDTH = 1.15;
+
+export type BomLine = {
+  key: string;
+  description: string;
+  quantity: number;
+  unit: "pcs" | "m";
+};
+
+export type BillOfMaterials = {
+  lines: BomLine[];
+  /** Enclosed floor area, m² */
+  floorArea: number;
+  /** Total outside wall length, m */
+  wallLength: number;
+};
+
+const pointKey = ({ x, y }: GridPoint) => `${x},${y}`;
+
+/** Cells on the grid that can't be reached from outside without crossing a wall */
+function enclosedCells(plan: RoomPlan) {
+  const { columns, rows } = plan;
+  // Blocked cell edges, "h:x,y" is the top edge of cell (x, y) and "v:x,y" its left edge
+  const blocked = new Set<string>();
+  plan.segments
+    .filter((segment) => segment.kind === "wall")
+    .forEach((segment) => {
+      const horizontal = isHorizontal(segment);
+      for (let i = 0; i < segmentCells(segment); i++) {
+        const { x, y } = pointAlong(segment, i);
+        blocked.add(`${horizontal ? "h" : "v"}:${x},${y}`);
+      }
+    });
+
+  const outside = new Set<string>();
+  const queue: GridPoint[] = [];
+  const visit = (x: number, y: number) => {
+    const key = pointKey({ x, y });
+    if (outside.has(key)) return;
+    outside.add(key);
+    queue.push({ x, y });
+  };
+
+  for (let x = 0; x < columns; x++) {
+    if (!blocked.has(`h:${x},0`)) visit(x, 0);
+    if (!blocked.has(`h:${x},${rows}`)) visit(x, rows - 1);
+  }
+  for (let y = 0; y < rows; y++) {
+    if (!blocked.has(`v:0,${y}`)) visit(0, y);
+    if (!blocked.has(`v:${columns},${y}`)) visit(columns - 1, y);
+  }
+
+  while (queue.length > 0) {
+    const { x, y } = queue.pop()!;
+    if (x > 0 && !blocked.has(`v:${x},${y}`)) visit(x - 1, y);
+    if (x < columns - 1 && !blocked.has(`v:${x + 1},${y}`)) visit(x + 1, y);
+    if (y > 0 && !blocked.has(`h:${x},${y}`)) visit(x, y - 1);
+    if (y < rows - 1 && !blocked.has(`h:${x},${y + 1}`)) visit(x, y + 1);
+  }
+
+  const cells: GridPoint[] = [];
+  for (let x = 0; x < columns; x++) {
+    for (let y = 0; y < rows; y++) {
+      if (!outside.has(pointKey({ x, y }))) cells.push({ x, y });
+    }
+  }
+  return cells;
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Panels, doors and trims for a plan. Panels are counted per run so offcuts
+ * aren't shared between walls, trims are totals to be cut from stock lengths.
+ */
+export function buildBillOfMaterials(plan: RoomPlan): BillOfMaterials {
+  const { cellSize, roomHeight, panelThickness } = plan;
+  const panelSize = `${panelThickness} mm x ${roomHeight} m`;
+
+  const doorsOn = (segment: Segment) =>
+    plan.doors.filter((door) => door.segmentId === segment.id);
+  const runs = (kind: SegmentKind) =>
+    plan.segments
+      .filter((segment) => segment.kind === kind)
+      .map((segment) => {
+        const length = segmentCells(segment) * cellSize;
+        const openings = doorsOn(segment).reduce(
+          (total, door) => total + door.width * cellSize,
+          0,
+        );
+        return {
+          segment,
+          length,
+          openings,
+          panels: Math.ceil((length - openings) / PANEL_WIDTH - 1e-9),
+        };
+      });
+  const walls = runs("wall");
+  const partitions = runs("partition");
+  const sum = (items: { length: number }[]) =>
+    items.reduce((total, item) => total + item.length, 0);
+  const wallLength = sum(walls);
+  const partitionLength = sum(partitions);
+  /** Run length less door openings */
+  const clearLength = (items: { length: number; openings: number }[]) =>
+    sum(items.map(({ length, openings }) => ({ length: length - openings })));
+  // Walls are coved on the inside only, partitions on both faces
+  const covingLength = clearLength(walls) + 2 * clearLength(partitions);
+
+  const cells = enclosedCells(plan);
+  const floorArea = cells.length * cellSize * cellSize;
+  // Ceiling panels span the shorter side of the enclosed area
+  const xs = cells.map((cell) => cell.x);
+  const ys = cells.map((cell) => cell.y);
+  const span =
+    cells.length > 0
+      ? Math.min(
+          Math.max(...xs) - Math.min(...xs) + 1,
+          Math.max(...ys) - Math.min(...ys) + 1,
+        ) * cellSize
+      : 0;
+  const ceilingPanels =
+    span > 0 ? Math.ceil(floorArea / (span * PANEL_WIDTH) - 1e-9) : 0;
+
+  // Grid points where a horizontal and a vertical wall meet
+  const wallPoints = new Map<string, Set<boolean>>();
+  plan.segments
+    .filter((segment) => segment.kind === "wall")
+    .forEach((segment) => {
+      for (let i = 0; i <= segmentCells(segment); i++) {
+        const key = pointKey(pointAlong(segment, i));
+        const orientations = wallPoints.get(key) ?? new Set<boolean>();
+        orientations.add(isHorizontal(segment));
+        wallPoints.set(key, orientations);
+      }
+    });
+  const corners = Array.from(wallPoints.values()).filter(
+    (orientations) => orientations.size === 2,
+  ).length;
+  const junctions = partitions
+    .flatMap(({ segment }) => [segment.from, segment.to])
+    .filter((point) => wallPoints.has(pointKey(point))).length;
+
+  const doors = new Map<string, BomLine>();
+  plan.doors.forEach((door) => {
+    const width = door.width * cellSize;
+    const key = `door-${door.type}-${width}`;
+    const line = doors.get(key) ?? {
+      key,
+      description: `${DOOR_TYPES[door.type]}, ${width.toFixed(1)} m clear opening`,
+      quantity: 0,
+      unit: "pcs" as const,
+    };
+    line.quantity += 1;
+    doors.set(key, line);
+  });
+
+  const lines: BomLine[] = [
+    {
+      key: "wallPanels",
+      description: `Wall panels, ${panelSize}`,
+      quantity: walls.reduce((total, run) => total + run.panels, 0),
+      unit: "pcs",
+    },
+    {
+      key: "partitionPanels",
+      description: `Partition panels, ${panelSize}`,
+      quantity: partitions.reduce((total, run) => total + run.panels, 0),
+      unit: "pcs",
+    },
+    {
+      key: "ceilingPanels",
+      description: `Ceiling panels, ${panelThickness} mm x ${round(span)} m`,
+      quantity: ceilingPanels,
+      unit: "pcs",
+    },
+    ...doors.values(),
+    {
+      key: "ceilingTrim",
+      description: "Wall to ceiling trim, inside and outside",
+      quantity: round(2 * (wallLength + partitionLength)),
+      unit: "m",
+    },
+    {
+      key: "floorCoving",
+      description: "Floor coving, less door openings",
+      quantity: round(Math.max(0, covingLength)),
+      unit: "m",
+    },
+    {
+      key: "cornerTrim",
+      description: "Vertical corner trim, inside and outside",
+      quantity: round(corners * 2 * roomHeight),
+      unit: "m",
+    },
+    {
+      key: "junctionTrim",
+      description: "Partition to wall junction trim",
+      quantity: round(junctions * 2 * roomHeight),
+      unit: "m",
+    },
+  ];
+
+  return {
+    lines: lines.filter((line) => line.quantity > 0),
+    floorArea,
+    wallLength,
+  };
+}
@@ -0,0 +1,152 @@
+export type CoreType = "PIR" | "PU" | "PS";
+
+export type TargetMode = "heatLoss" | "uValue";
+
+export type ThicknessInputs = {
+  /** Inside design temperature, °C */
+  roomTemp: number;
+  /** Outside design temperature, °C */
+  ambientTemp: number;
+  core: CoreType;
+  targetMode: TargetMode;
+  /** W/m² for `heatLoss`, W/m²K for `uValue` */
+  target: number;
+};
+
+export type ThicknessOption = {
+  /** mm */
+  thickness: number;
+  /** W/m²K */
+  uValue: number;
+  /** W/m² at the given temperature difference */
+  heatLoss: number;
+  meetsTarget: boolean;
+};
+
+export type ThicknessResult = {
+  /** Smallest standard thickness meeting the target, undefined when none does */
+  recommended?: ThicknessOption;
+  options: ThicknessOption[];
+  /** K */
+  temperatureDifference: number;
+  /** W/m²K the panel must reach */
+  requiredUValue: number;
+  warnings: string[];
+};
+
+export const CORE_TYPES: Record<
+  CoreType,
+  { label: string; conductivity: number; minRoomTemp: number }
+> = {
+  // Aged design conductivity in W/mK and the coldest room each core is sold for
+  PIR: {
+    label: "PIR (Polyisocyanurate)",
+    conductivity: 0.022,
+    minRoomTemp: -40,
+  },
+  PU: { label: "PU (Polyurethane)", conductivity: 0.023, minRoomTemp: -30 },
+  PS: { label: "PS (Polystyrene)", conductivity: 0.037, minRoomTemp: 0 },
+};
+
+/** Thicknesses produced on our lines, mm */
+export const STANDARD_THICKNESSES = [50, 75, 100, 125, 150, 175, 200];
+
+/** Inside and outside surface resistances for walls, m²K/W */
+const SURFACE_RESISTANCE = 0.13 + 0.04;
+
+export const DEFAULT_THICKNESS_INPUTS: ThicknessInputs = {
+  roomTemp: -18,
+  ambientTemp: 35,
+  core: "PIR",
+  targetMode: "heatLoss",
+  // Common design limit for cold store envelopes
+  target: 8,
+};
+
+export const panelUValue = (core: CoreType, thickness: number) =>
+  1 / (SURFACE_RESISTANCE + thickness / 1000 / CORE_TYPES[core].conductivity);
+
+export function recommendThickness(inputs: ThicknessInputs): ThicknessResult {
+  const temperatureDifference = Math.abs(inputs.ambientTemp - inputs.roomTemp);
+  const requiredUValue =
+    inputs.targetMode === "uValue"
+      ? inputs.target
+      : temperatureDifference > 0
+        ? inputs.target / temperatureDifference
+        : Infinity;
+
+  const options = STANDARD_THICKNESSES.map((thickness) => {
+    const uValue = panelUValue(inputs.core, thickness);
+    return {
+      thickness,
+      uValue,
+      heatLoss: uValue * temperatureDifference,
+      meetsTarget: uValue <= requiredUValue,
+    };
+  });
+
+  const warnings: string[] = [];
+  const core = CORE_TYPES[inputs.core];
+  if (inputs.roomTemp < core.minRoomTemp) {
+    warnings.push(
+      `${inputs.core} panels are not recommended below ${core.minRoomTemp} °C, consider PIR instead.`,
+    );
+  }
+  if (inputs.roomTemp < 0) {
+    warnings.push(
+      "Freezer rooms also need floor insulation and heated door frames to prevent frost heave and ice build-up.",
+    );
+  }
+
+  return {
+    recommended: options.find((option) => option.meetsTarget),
+    options,
+    temperatureDifference,
+    requiredUValue,
+    warnings,
+  };
+}
+
+const isCoreType = (value: unknown): value is CoreType =>
+  typeof value === "string" && value in CORE_TYPES;
+
+/** Read shared calculator links, falling back to defaults for anything invalid */
+export function parseThicknessInputs(
+  params: Record<string, string | string[] | undefined>,
+): ThicknessInputs {
+  const number = (key: string, fallback: number, min: number, max: number) => {
+    const value = Number(params[key]);
+    return typeof params[key] === "string" &&
+      params[key] !== "" &&
+      Number.isFinite(value) &&
+      value >= min &&
+      value <= max
+      ? value
+      : fallback;
+  };
+  const core = typeof params.core === "string" ? params.core.toUpperCase() : "";
+  const targetMode =
+    params.targetMode === "uValue" || params.targetMode === "heatLoss"
+      ? params.targetMode
+      : DEFAULT_THICKNESS_INPUTS.targetMode;
+
+  return {
+    roomTemp: number("roomTemp", DEFAULT_THICKNESS_INPUTS.roomTemp, -60, 30),
+    ambientTemp: number(
+      "ambientTemp",
+      DEFAULT_THICKNESS_INPUTS.ambientTemp,
+      -10,
+      60,
+    ),
+    core: isCoreType(core) ? core : DEFAULT_THICKNESS_INPUTS.core,
+    targetMode,
+    target: number(
+      "target",
+      targetMode === DEFAULT_THICKNESS_INPUTS.targetMode
+        ? DEFAULT_THICKNESS_INPUTS.target
+        : 0.2,
+      0.01,
+      100,
+    ),
+  };
+}
@@ -0,0 +1,273 @@
+import { STANDARD_THICKNESSES, panelUValue } from "./panelThickness";
+
+export type ProductType =
+  | "fruitVegetables"
+  | "meat"
+  | "fish"
+  | "dairy"
+  | "beverages"
+  | "frozenFood";
+
+export type LoadInputs = {
+  /** Internal dimensions, m */
+  length: number;
+  width: number;
+  height: number;
+  /** Room set-point, °C */
+  setPoint: number;
+  /** Outside design temperature, °C */
+  ambientTemp: number;
+  /** Outside relative humidity, % */
+  ambientHumidity: number;
+  productType: ProductType;
+  /** Product loaded per day, kg */
+  dailyThroughput: number;
+  /** Product temperature when it arrives, °C */
+  productEntryTemp: number;
+  doorOpenings: number;
+  /** PIR wall, ceiling and floor panel thickness, mm */
+  panelThickness: number;
+};
+
+export type LoadComponent = {
+  key: "transmission" | "product" | "infiltration" | "internal";
+  label: string;
+  kw: number;
+};
+
+export type LoadEstimate = {
+  components: LoadComponent[];
+  /** Total including the safety margin, kW */
+  totalKw: number;
+  /** Hours per day the plant is sized to run, leaving time for defrost */
+  runHours: number;
+};
+
+/** Thermal properties per kg, kJ/kgK for specific heats and kJ/kg for latent heat */
+export const PRODUCT_TYPES: Record<
+  ProductType,
+  {
+    label: string;
+    specificHeatAbove: number;
+    specificHeatBelow: number;
+    latentHeat: number;
+    freezingPoint: number;
+  }
+> = {
+  fruitVegetables: {
+    label: "Fruit & Vegetables",
+    specificHeatAbove: 3.8,
+    specificHeatBelow: 1.9,
+    latentHeat: 280,
+    freezingPoint: -1,
+  },
+  meat: {
+    label: "Meat & Poultry",
+    specificHeatAbove: 3.2,
+    specificHeatBelow: 1.7,
+    latentHeat: 230,
+    freezingPoint: -2,
+  },
+  fish: {
+    label: "Fish & Seafood",
+    specificHeatAbove: 3.6,
+    specificHeatBelow: 1.9,
+    latentHeat: 270,
+    freezingPoint: -2.2,
+  },
+  dairy: {
+    label: "Dairy",
+    specificHeatAbove: 3.7,
+    specificHeatBelow: 1.9,
+    latentHeat: 260,
+    freezingPoint: -0.6,
+  },
+  beverages: {
+    label: "Beverages",
+    specificHeatAbove: 3.9,
+    specificHeatBelow: 2.0,
+    latentHeat: 300,
+    freezingPoint: -2,
+  },
+  frozenFood: {
+    label: "Frozen Food (already frozen)",
+    specificHeatAbove: 3.3,
+    specificHeatBelow: 1.8,
+    latentHeat: 240,
+    freezingPoint: -2,
+  },
+};
+
+/** Air swapped each time a standard 0.9 x 2 m door is opened briefly, m³ */
+const AIR_EXCHANGED_PER_OPENING = 3;
+/** Background air changes per day through seals and the pressure relief valve */
+const BASE_AIR_CHANGES = 2;
+/** Inside relative humidity assumed for cold stores, % */
+const ROOM_HUMIDITY = 90;
+/** Lights, people, fans and defrost heat, as a share of the other loads */
+const INTERNAL_LOAD_FACTOR = 0.15;
+const SAFETY_FACTOR = 1.1;
+
+export const DEFAULT_LOAD_INPUTS: LoadInputs = {
+  length: 5,
+  width: 4,
+  height: 3,
+  setPoint: 2,
+  ambientTemp: 35,
+  ambientHumidity: 70,
+  productType: "fruitVegetables",
+  dailyThroughput: 1000,
+  productEntryTemp: 25,
+  doorOpenings: 30,
+  panelThickness: 100,
+};
+
+/** Moist air enthalpy in kJ/kg dry air at sea level */
+const airEnthalpy = (temp: number, humidity: number) => {
+  const saturation = 0.61094 * Math.exp((17.625 * temp) / (temp + 243.04)); // kPa, Magnus
+  const vapour = (humidity / 100) * saturation;
+  const moisture = (0.622 * vapour) / (101.325 - vapour);
+  return 1.006 * temp + moisture * (2501 + 1.86 * temp);
+};
+
+/** Heat removed from one kg of product cooled from `from` to `to` */
+const productHeat = (type: ProductType, from: number, to: number) => {
+  const { specificHeatAbove, specificHeatBelow, latentHeat, freezingPoint } =
+    PRODUCT_TYPES[type];
+  if (from <= to) return 0;
+
+  let heat = 0;
+  if (from > freezingPoint) {
+    heat += specificHeatAbove * (from - Math.max(to, freezingPoint));
+  }
+  if (from > freezingPoint && to < freezingPoint) heat += latentHeat;
+  if (to < freezingPoint) {
+    heat += specificHeatBelow * (Math.min(from, freezingPoint) - to);
+  }
+  return heat;
+};
+
+/**
+ * Daily heat gain of a cold room spread over the plant's run hours. A
+ * simplified version of the method our engineers use for budget quotes.
+ */
+export function estimateRefrigerationLoad(inputs: LoadInputs): LoadEstimate {
+  const { length, width, height, setPoint, ambientTemp } = inputs;
+  const runHours = setPoint < 0 ? 18 : 16;
+  const toKw = (kjPerDay: number) => kjPerDay / (runHours * 3600);
+
+  const surfaceArea = 2 * (length * width + length * height + width * height);
+  const volume = length * width * height;
+  const temperatureDifference = Math.max(0, ambientTemp - setPoint);
+
+  // W over 24 hours to kJ/day
+  const transmission =
+    panelUValue("PIR", inputs.panelThickness) *
+    surfaceArea *
+    temperatureDifference *
+    86.4;
+
+  const product =
+    inputs.dailyThroughput *
+    productHeat(inputs.productType, inputs.productEntryTemp, setPoint);
+
+  const airVolume =
+    volume * BASE_AIR_CHANGES + inputs.doorOpenings * AIR_EXCHANGED_PER_OPENING;
+  const airDensity = 353 / (setPoint + 273.15);
+  const infiltration =
+    airVolume *
+    airDensity *
+    Math.max(
+      0,
+      airEnthalpy(ambientTemp, inputs.ambientHumidity) -
+        airEnthalpy(setPoint, ROOM_HUMIDITY),
+    );
+
+  const internal =
+    (transmission + product + infiltration) * INTERNAL_LOAD_FACTOR;
+
+  const components: LoadComponent[] = [
+    {
+      key: "transmission",
+      label: "Walls, ceiling & floor",
+      kw: toKw(transmission),
+    },
+    { key: "product", label: "Product cooling", kw: toKw(product) },
+    {
+      key: "infiltration",
+      label: "Air infiltration & door openings",
+      kw: toKw(infiltration),
+    },
+    {
+      key: "internal",
+      label: "Lights, people, fans & defrost",
+      kw: toKw(internal),
+    },
+  ];
+
+  return {
+    components,
+    totalKw:
+      components.reduce((total, component) => total + component.kw, 0) *
+      SAFETY_FACTOR,
+    runHours,
+  };
+}
+
+/** Valid range per numeric input, shared by the form and the enquiry schema */
+export const LOAD_INPUT_RANGES: Record<
+  Exclude<keyof LoadInputs, "productType">,
+  [number, number]
+> = {
+  length: [0.5, 100],
+  width: [0.5, 100],
+  height: [1, 20],
+  setPoint: [-45, 20],
+  ambientTemp: [-10, 55],
+  ambientHumidity: [0, 100],
+  dailyThroughput: [0, 1_000_000],
+  productEntryTemp: [-40, 60],
+  doorOpenings: [0, 1000],
+  panelThickness: [
+    STANDARD_THICKNESSES[0],
+    STANDARD_THICKNESSES[STANDARD_THICKNESSES.length - 1],
+  ],
+};
+
+const isProductType = (value: unknown): value is ProductType =>
+  typeof value === "string" && Object.hasOwn(PRODUCT_TYPES, value);
+
+/** Read estimator inputs from a query string, falling back to defaults for anything invalid */
+export function parseLoadInputs(
+  params: Record<string, string | string[] | undefined>,
+): LoadInputs {
+  const numbers = Object.fromEntries(
+    Object.entries(LOAD_INPUT_RANGES).map(([key, [min, max]]) => {
+      const raw = params[key];
+      const value = Number(raw);
+      const valid =
+        typeof raw === "string" &&
+        raw !== "" &&
+        Number.isFinite(value) &&
+        value >= min &&
+        value <= max;
+      return [
+        key,
+        valid ? value : DEFAULT_LOAD_INPUTS[key as keyof LoadInputs],
+      ];
+    }),
+  );
+
+  return {
+    ...(numbers as Omit<LoadInputs, "productType">),
+    productType: isProductType(params.productType)
+      ? params.productType
+      : DEFAULT_LOAD_INPUTS.productType,
+  };
+}
+
+/** Inputs as a query string, read back with `parseLoadInputs` */
+export const toLoadQuery = (inputs: LoadInputs) =>
+  new URLSearchParams(
+    Object.entries(inputs).map(([key, value]) => [key, String(value)]),
+  ).toString();
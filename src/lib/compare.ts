@@ -0,0 +1,13 @@
+/** How many products fit side by side in the comparison table */
+export const MAX_COMPARE = 4;
+
+/** Read the `ids` query param of the compare page, e.g. `?ids=3,7,12` */
+export function parseCompareIds(value?: string | string[]) {
+  const raw = Array.isArray(value) ? value.join(",") : value || "";
+  const ids = raw
+    .split(",")
+    .map((id) => Number(id.trim()))
+    .filter((id) => Number.isInteger(id) && id > 0);
+
+  return Array.from(new Set(ids)).slice(0, MAX_COMPARE);
+}
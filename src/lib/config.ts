@@ -0,0 +1,112 @@
+import { z } from "zod";
+import { PUBLIC_DEFAULTS, publicConfig } from "@/lib/publicConfig";
+
+const blankAsUndefined = (v: unknown) => (v === "" ? undefined : v);
+
+const envSchema = z
+  .object({
+    NODE_ENV: z.string().default("development"),
+    NEXT_PUBLIC_API_URL: z.preprocess(blankAsUndefined, z.url().optional()),
+    NEXT_PUBLIC_SITE_URL: z.preprocess(
+      blankAsUndefined,
+      z.url().default("https://ur-customer-support-web-nextjs.vercel.app"),
+    ),
+    NEXT_PUBLIC_USE_MOCK_API: z.preprocess(
+      blankAsUndefined,
+      z.enum(["true", "false"]).default("false"),
+    ),
+    NEXT_PUBLIC_WHATSAPP: z.preprocess(
+      blankAsUndefined,
+      z
+        .string()
+        .regex(/^\d{8,15}$/, "Use digits only, including the country code")
+        .default(PUBLIC_DEFAULTS.whatsapp),
+    ),
+    NEXT_PUBLIC_GA_ID: z.preprocess(
+      blankAsUndefined,
+      z
+        .string()
+        .regex(/^G-[A-Z0-9]+$/, "Expected a GA4 measurement ID (G-XXXX)")
+        .default("G-XQTL49RNLM"),
+    ),
+    NEXT_PUBLIC_BOTPRESS_INJECT_URL: z.preprocess(
+      blankAsUndefined,
+      z.url().default(PUBLIC_DEFAULTS.botpressInjectUrl),
+    ),
+    NEXT_PUBLIC_BOTPRESS_CONFIG_URL: z.preprocess(
+      blankAsUndefined,
+      z.url().default(PUBLIC_DEFAULTS.botpressConfigUrl),
+    ),
+    NEXT_PUBLIC_MAP_TILE_URL: z.preprocess(
+      blankAsUndefined,
+      z.string().default(PUBLIC_DEFAULTS.mapTileUrl),
+    ),
+    NEXT_PUBLIC_MAP_ATTRIBUTION: z.preprocess(
+      blankAsUndefined,
+      z.string().default(PUBLIC_DEFAULTS.mapAttribution),
+    ),
+    // Server only, unset turns the revalidation webhook off
+    REVALIDATE_SECRET: z.preprocess(blankAsUndefined, z.string().optional()),
+    // Server only, signs enquiry form tokens so every instance accepts them
+    ENQUIRY_FORM_SECRET: z.preprocess(
+      blankAsUndefined,
+      z.string().min(32, "Use at least 32 characters").optional(),
+    ),
+  })
+  .superRefine((env, ctx) => {
+    if (
+      env.NODE_ENV === "production" &&
+      env.NEXT_PUBLIC_USE_MOCK_API === "false" &&
+      !env.NEXT_PUBLIC_API_URL
+    ) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["NEXT_PUBLIC_API_URL"],
+        message: "Required in production unless NEXT_PUBLIC_USE_MOCK_API=true",
+      });
+    }
+  });
+
+// NEXT_PUBLIC_* values are inlined at build time, so each one must be referenced literally
+const parsed = envSchema.safeParse({
+  NODE_ENV: process.env.NODE_ENV,
+  NEXT_PUBLIC_API_URL: process.env.NEXT_PUBLIC_API_URL,
+  NEXT_PUBLIC_SITE_URL: process.env.NEXT_PUBLIC_SITE_URL,
+  NEXT_PUBLIC_USE_MOCK_API: process.env.NEXT_PUBLIC_USE_MOCK_API,
+  NEXT_PUBLIC_WHATSAPP: process.env.NEXT_PUBLIC_WHATSAPP,
+  NEXT_PUBLIC_GA_ID: process.env.NEXT_PUBLIC_GA_ID,
+  NEXT_PUBLIC_BOTPRESS_INJECT_URL: process.env.NEXT_PUBLIC_BOTPRESS_INJECT_URL,
+  NEXT_PUBLIC_BOTPRESS_CONFIG_URL: process.env.NEXT_PUBLIC_BOTPRESS_CONFIG_URL,
+  NEXT_PUBLIC_MAP_TILE_URL: process.env.NEXT_PUBLIC_MAP_TILE_URL,
+  NEXT_PUBLIC_MAP_ATTRIBUTION: process.env.NEXT_PUBLIC_MAP_ATTRIBUTION,
+  REVALIDATE_SECRET: process.env.REVALIDATE_SECRET,
+  ENQUIRY_FORM_SECRET: process.env.ENQUIRY_FORM_SECRET,
+});
+
+if (!parsed.success) {
+  throw new Error(
+    `Invalid environment configuration:\n${z.prettifyError(parsed.error)}`,
+  );
+}
+
+const env = parsed.data;
+
+/**
+ * Validated settings for server code. Client components import
+ * `@/lib/publicConfig` instead, which reads the same public values.
+ */
+export const config = {
+  ...publicConfig,
+  siteUrl: env.NEXT_PUBLIC_SITE_URL.replace(/\/$/, ""),
+  analytics: {
+    gaId: env.NEXT_PUBLIC_GA_ID,
+  },
+  revalidate: {
+    /** Shared with the backend's webhook, undefined when revalidation is off */
+    secret: env.REVALIDATE_SECRET,
+  },
+  enquiry: {
+    /** Undefined falls back to a per-instance key, see `@/lib/enquiry/formToken` */
+    formSecret: env.ENQUIRY_FORM_SECRET,
+  },
+} as const;
@@ -0,0 +1,30 @@
+import { parseLoadInputs } from "@/lib/calculators/refrigerationLoad";
+import { EnquiryTypeEnum, EnquiryTypeMap } from "@/lib/enum/enquiryType";
+import { EnquiryContext } from "@/types/enquiry";
+
+const first = (value?: string | string[]) =>
+  (Array.isArray(value) ? value[0] : value)?.trim() || undefined;
+
+/** Read the query string written by `routes.enquiry`, dropping anything invalid */
+export function parseEnquiryContext(
+  params: Record<string, string | string[] | undefined>,
+): EnquiryContext {
+  const type = Number(first(params.type));
+  const productId = Number(first(params.product));
+  const load = first(params.load);
+
+  return {
+    type:
+      first(params.type) !== undefined && type in EnquiryTypeMap
+        ? (type as EnquiryTypeEnum)
+        : undefined,
+    productId:
+      Number.isInteger(productId) && productId > 0 ? productId : undefined,
+    projectRef: first(params.project)?.slice(0, 100),
+    source: first(params.source)?.slice(0, 200),
+    loadInputs: load
+      ? parseLoadInputs(Object.fromEntries(new URLSearchParams(load)))
+      : undefined,
+    attachLayout: first(params.layout) === "1" || undefined,
+  };
+}
@@ -0,0 +1,79 @@
+import { EnquiryTypeEnum } from "@/lib/enum/enquiryType";
+import { EnquiryDetailsByType } from "@/types/enquiry";
+
+/** A detail input the enquiry form renders for one enquiry type */
+export type EnquiryDetailField<T extends EnquiryTypeEnum = EnquiryTypeEnum> = {
+  // Distributes, so the default covers the field names of every type
+  name: T extends EnquiryTypeEnum
+    ? Extract<keyof EnquiryDetailsByType[T], string>
+    : never;
+  label: string;
+  input: "text" | "number" | "textarea" | "datetime-local";
+  placeholder?: string;
+  required?: boolean;
+  /** Sits beside the next half width field on wider screens */
+  half?: boolean;
+};
+
+/**
+ * Detail inputs per enquiry type, in display order. A new type only needs
+ * an entry here and in `enquiryDetailsSchemas`, the form renders the rest.
+ */
+export const ENQUIRY_DETAIL_FIELDS: {
+  [T in EnquiryTypeEnum]: EnquiryDetailField<T>[];
+} = {
+  [EnquiryTypeEnum.ProductEnquiry]: [],
+  [EnquiryTypeEnum.ConsultancyAndSiteSurvey]: [
+    {
+      name: "address",
+      label: "Address",
+      input: "textarea",
+      placeholder: "Enter the site address",
+      required: true,
+    },
+    {
+      name: "preferredDateTime",
+      label: "Preferred Date & Time",
+      input: "datetime-local",
+      required: true,
+    },
+  ],
+  [EnquiryTypeEnum.ColdRoomDesign]: [
+    {
+      name: "roomSize",
+      label: "Room Size (Length x Width x Height)",
+      input: "text",
+      placeholder: "e.g. 10m x 5m x 3m",
+      required: true,
+      half: true,
+    },
+    {
+      name: "temperature",
+      label: "Temperature (°C)",
+      input: "number",
+      placeholder: "e.g. -18",
+      required: true,
+      half: true,
+    },
+  ],
+  [EnquiryTypeEnum.ColdRoomRepairAndMaintenance]: [],
+};
+
+/** Raw input values by field name, as the form holds them */
+export type EnquiryDetailValues = Record<string, string>;
+
+/** Convert the form's input values into the typed details for `type` */
+export function toEnquiryDetails<T extends EnquiryTypeEnum>(
+  type: T,
+  values: EnquiryDetailValues,
+): EnquiryDetailsByType[T] {
+  const fields = ENQUIRY_DETAIL_FIELDS[type] as EnquiryDetailField[];
+  return Object.fromEntries(
+    fields.flatMap(({ name, input }) => {
+      const value = values[name]?.trim() ?? "";
+      // Blank inputs are left out so the schema reports them as missing
+      if (value === "") return [];
+      return [[name, input === "number" ? Number(value) : value]];
+    }),
+  ) as EnquiryDetailsByType[T];
+}
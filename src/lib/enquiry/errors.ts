@@ -0,0 +1,39 @@
+/** First validation message per field, keyed by path, e.g. `details.roomSize` */
+export type FieldErrors = Record<string, string>;
+
+/** Field errors from zod issues, keeping the first message for each field */
+export function issuesToFieldErrors(
+  issues: { path: PropertyKey[]; message: string }[],
+): FieldErrors {
+  const errors: FieldErrors = {};
+  issues.forEach(({ path, message }) => {
+    const key = path.map(String).join(".");
+    if (key && !(key in errors)) errors[key] = message;
+  });
+  return errors;
+}
+
+/**
+ * Split `ApiResponse.errors` from the backend or the enquiry route into
+ * field errors and the rest. Field errors read `<path>: <message>`, paths
+ * from the backend may be PascalCase.
+ */
+export function parseApiFieldErrors(errors: string[]) {
+  const fieldErrors: FieldErrors = {};
+  const otherErrors: string[] = [];
+
+  errors.forEach((error) => {
+    const match = /^([A-Za-z][\w.]*): (.+)$/.exec(error);
+    if (!match) {
+      otherErrors.push(error);
+      return;
+    }
+    const key = match[1]
+      .split(".")
+      .map((segment) => segment.charAt(0).toLowerCase() + segment.slice(1))
+      .join(".");
+    if (!(key in fieldErrors)) fieldErrors[key] = match[2];
+  });
+
+  return { fieldErrors, otherErrors };
+}
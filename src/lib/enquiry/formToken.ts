@@ -0,0 +1,45 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { config } from "@/lib/config";
+
+/** Anything faster than this is a script, not a person typing */
+export const MIN_FILL_TIME_MS = 3000;
+/** Forms left open longer than this have to fetch a new token */
+const MAX_FORM_AGE_MS = 6 * 60 * 60 * 1000;
+
+// Without a configured secret, tokens only verify on the instance that issued them
+const secret = config.enquiry.formSecret ?? randomBytes(32).toString("hex");
+
+const sign = (issuedAt: string) =>
+  createHmac("sha256", secret)
+    .update(`enquiry-form:${issuedAt}`)
+    .digest("base64url");
+
+/** `<issuedAt>.<signature>`, handed to a form when it opens and sent back with it */
+export const issueFormToken = (now = Date.now()) =>
+  `${now}.${sign(String(now))}`;
+
+export type FormTokenCheck = "valid" | "invalid" | "tooFast" | "expired";
+
+/** Verify a token from a submission, and how long the form was open */
+export function checkFormToken(
+  token: string,
+  now = Date.now(),
+): FormTokenCheck {
+  const [issuedAt = "", signature = ""] = token.split(".");
+  if (!/^\d{1,15}$/.test(issuedAt)) return "invalid";
+
+  const expected = Buffer.from(sign(issuedAt));
+  const received = Buffer.from(signature);
+  if (
+    expected.length !== received.length ||
+    !timingSafeEqual(expected, received)
+  ) {
+    return "invalid";
+  }
+
+  const age = now - Number(issuedAt);
+  if (age < 0) return "invalid";
+  if (age < MIN_FILL_TIME_MS) return "tooFast";
+  if (age > MAX_FORM_AGE_MS) return "expired";
+  return "valid";
+}
@@ -0,0 +1,15 @@
+import { EnquiryLineItem } from "@/types/enquiry";
+
+/**
+ * Plain text version of the line items for the enquiry message, so the
+ * request still reads correctly wherever only the message is shown
+ */
+export function summariseLineItems(items: EnquiryLineItem[]) {
+  return items
+    .map(
+      (item, index) =>
+        `${index + 1}. ${item.productName} x ${item.quantity}` +
+        (item.notes ? ` (${item.notes})` : ""),
+    )
+    .join("\n");
+}
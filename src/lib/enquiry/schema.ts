@@ -0,0 +1,217 @@
+import { z } from "zod";
+import {
+  DOOR_TYPES,
+  DoorType,
+  RoomPlan,
+  buildBillOfMaterials,
+  isHorizontal,
+  segmentCells,
+} from "@/lib/calculators/coldRoomLayout";
+import { STANDARD_THICKNESSES } from "@/lib/calculators/panelThickness";
+import {
+  LOAD_INPUT_RANGES,
+  PRODUCT_TYPES,
+  LoadInputs,
+  ProductType,
+  estimateRefrigerationLoad,
+} from "@/lib/calculators/refrigerationLoad";
+import { EnquiryTypeEnum } from "@/lib/enum/enquiryType";
+import { normalisePhone } from "@/lib/helper/phone";
+
+/** Most units on one line, and most lines in one enquiry */
+export const MAX_LINE_QUANTITY = 100000;
+export const MAX_LINE_ITEMS = 50;
+
+export const enquiryLineItemSchema = z.object({
+  productId: z.number().int().positive(),
+  productName: z.string().trim().min(1).max(200),
+  quantity: z
+    .number()
+    .int()
+    .min(1, "Quantity must be at least 1")
+    .max(MAX_LINE_QUANTITY),
+  notes: z.string().trim().max(500).optional(),
+});
+
+/** A quote basket line as kept in this browser, see `QuoteItem` */
+export const quoteItemSchema = z.object({
+  productId: enquiryLineItemSchema.shape.productId,
+  name: enquiryLineItemSchema.shape.productName,
+  imageUrl: z.string().optional(),
+  quantity: enquiryLineItemSchema.shape.quantity,
+  notes: z.string().max(500),
+});
+
+export const loadInputsSchema = z.object({
+  ...Object.fromEntries(
+    Object.entries(LOAD_INPUT_RANGES).map(([key, [min, max]]) => [
+      key,
+      z.number().min(min).max(max),
+    ]),
+  ),
+  productType: z.enum(Object.keys(PRODUCT_TYPES) as [ProductType]),
+});
+
+/** Only the inputs are trusted, the result is recalculated on the server */
+export const loadEstimateSchema = z
+  .object({ inputs: loadInputsSchema })
+  .transform(({ inputs }) => ({
+    // Keys come from LOAD_INPUT_RANGES, which zod can't see through
+    inputs: inputs as LoadInputs,
+    ...estimateRefrigerationLoad(inputs as LoadInputs),
+  }));
+
+const gridPointSchema = z.object({
+  x: z.number().int().min(0).max(100),
+  y: z.number().int().min(0).max(100),
+});
+
+const planIdSchema = z.string().trim().min(1).max(40);
+
+/** Saved or imported planner layouts, also checked so doors sit on their wall */
+export const roomPlanSchema = z
+  .object({
+    version: z.literal(1),
+    cellSize: z.number().min(0.1).max(2),
+    columns: z.number().int().min(1).max(100),
+    rows: z.number().int().min(1).max(100),
+    roomHeight: z.number().min(1).max(20),
+    panelThickness: z
+      .number()
+      .refine((value) => STANDARD_THICKNESSES.includes(value), {
+        message: `Use one of ${STANDARD_THICKNESSES.join(", ")} mm`,
+      }),
+    segments: z
+      .array(
+        z.object({
+          id: planIdSchema,
+          kind: z.enum(["wall", "partition"]),
+          from: gridPointSchema,
+          to: gridPointSchema,
+        }),
+      )
+      .max(200),
+    doors: z
+      .array(
+        z.object({
+          id: planIdSchema,
+          type: z.enum(Object.keys(DOOR_TYPES) as [DoorType]),
+          segmentId: planIdSchema,
+          offset: z.number().int().min(0),
+          width: z.number().int().min(1),
+        }),
+      )
+      .max(50),
+  })
+  .superRefine((plan, ctx) => {
+    plan.segments.forEach((segment, index) => {
+      const { from, to } = segment;
+      const straight =
+        (isHorizontal(segment) && from.x < to.x) ||
+        (from.x === to.x && from.y < to.y);
+      const onGrid =
+        Math.max(from.x, to.x) <= plan.columns &&
+        Math.max(from.y, to.y) <= plan.rows;
+      if (!straight || !onGrid) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["segments", index],
+          message:
+            "Segments must run left to right or top to bottom on the grid",
+        });
+      }
+    });
+    plan.doors.forEach((door, index) => {
+      const segment = plan.segments.find((s) => s.id === door.segmentId);
+      if (!segment || door.offset + door.width > segmentCells(segment)) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["doors", index],
+          message: "Doors must fit within a wall or partition",
+        });
+      }
+    });
+  });
+
+/** Only the plan is trusted, the bill of materials is rebuilt on the server */
+export const roomLayoutSchema = z
+  .object({ plan: roomPlanSchema })
+  .transform(({ plan }) => ({
+    plan: plan as RoomPlan,
+    billOfMaterials: buildBillOfMaterials(plan as RoomPlan),
+  }));
+
+/** Details per enquiry type, missing details report each required field */
+export const enquiryDetailsSchemas = {
+  [EnquiryTypeEnum.ProductEnquiry]: z.object({}),
+  [EnquiryTypeEnum.ConsultancyAndSiteSurvey]: z.object({
+    address: z
+      .string("Address is required")
+      .trim()
+      .min(1, "Address is required")
+      .max(500),
+    preferredDateTime: z
+      .string("Preferred date & time is required")
+      .trim()
+      .min(1, "Preferred date & time is required")
+      .refine((value) => !isNaN(Date.parse(value)), {
+        message: "Enter a valid date and time",
+      }),
+  }),
+  [EnquiryTypeEnum.ColdRoomDesign]: z.object({
+    roomSize: z
+      .string("Room size is required")
+      .trim()
+      .min(1, "Room size is required")
+      .max(100),
+    temperature: z.number("Temperature is required").min(-60).max(30),
+    loadEstimate: loadEstimateSchema.optional(),
+    layout: roomLayoutSchema.optional(),
+  }),
+  [EnquiryTypeEnum.ColdRoomRepairAndMaintenance]: z.object({}),
+} satisfies Record<EnquiryTypeEnum, z.ZodObject>;
+
+const enquiryBaseSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  companyName: z.string().trim().min(1, "Company name is required").max(150),
+  email: z.email("Enter a valid email address").max(254),
+  phone: z
+    .string()
+    .trim()
+    .max(30)
+    .default("")
+    .refine((value) => value === "" || normalisePhone(value) !== null, {
+      message:
+        "Enter a valid phone number, e.g. 012-345 6789 or +44 20 7946 0958",
+    })
+    .transform((value) => (value && normalisePhone(value)) || ""),
+  message: z.string().trim().min(1, "Message is required").max(5000),
+  items: z.array(enquiryLineItemSchema).max(MAX_LINE_ITEMS).optional(),
+  productId: z.number().int().positive().optional(),
+  projectRef: z.string().trim().max(100).optional(),
+  source: z.string().trim().max(200).optional(),
+});
+
+/** One variant per enquiry type, so `details` is checked against the chosen type */
+const byEnquiryType = (base: z.ZodObject) => {
+  const [first, ...rest] = Object.entries(enquiryDetailsSchemas).map(
+    ([type, details]) =>
+      base.extend({
+        type: z.literal(Number(type)),
+        details: z.preprocess((v) => v ?? {}, details),
+      }),
+  );
+  return z.discriminatedUnion("type", [first, ...rest]);
+};
+
+export const enquirySchema = byEnquiryType(enquiryBaseSchema);
+
+export const enquirySubmissionSchema = byEnquiryType(
+  enquiryBaseSchema.extend({
+    website: z.string().optional(),
+    formToken: z
+      .string()
+      .min(1, "The form is still loading, please try again in a moment.")
+      .max(200),
+  }),
+);
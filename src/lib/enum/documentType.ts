@@ -0,0 +1,15 @@
+export enum DocumentTypeEnum {
+  Datasheet = 0,
+  Brochure,
+  InstallationGuide,
+  TestCertificate,
+  Other,
+}
+
+export const DocumentTypeMap: Record<number, string> = {
+  0: `Datasheet`,
+  1: `Brochure`,
+  2: `Installation Guide`,
+  3: `Test Certificate`,
+  4: `Other`,
+};
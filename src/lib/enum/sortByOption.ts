@@ -1,4 +1,21 @@
 export enum SortByOption {
   NameAsc = 1,
   NameDesc = 2,
+  Newest = 3,
+  Category = 4,
 }
+
+export const SortByOptionMap: Record<number, string> = {
+  1: `Name (A-Z)`,
+  2: `Name (Z-A)`,
+  3: `Newest`,
+  4: `Category`,
+};
+
+export const DEFAULT_SORT_BY = SortByOption.NameAsc;
+
+/** Read `?sortBy=`, falling back to the default for missing or unknown values */
+export const parseSortBy = (value?: string | string[]): SortByOption => {
+  const sortBy = Number(value);
+  return sortBy in SortByOptionMap ? sortBy : DEFAULT_SORT_BY;
+};
@@ -0,0 +1,13 @@
+export enum SpecificationGroupEnum {
+  Construction = 0,
+  Thermal,
+  Fire,
+  Operating,
+}
+
+export const SpecificationGroupMap: Record<number, string> = {
+  0: `Construction`,
+  1: `Thermal Performance`,
+  2: `Fire Performance`,
+  3: `Operating Conditions`,
+};
@@ -0,0 +1,90 @@
+import { DocumentTypeEnum, DocumentTypeMap } from "@/lib/enum/documentType";
+import { toSlug } from "@/lib/routes";
+import { ProductCategory, ProductDocument, Products } from "@/types/products";
+
+/** A document in the library with every product it's attached to */
+export type DocumentEntry = ProductDocument & {
+  products: Pick<Products, "id" | "name">[];
+  categoryIds: number[];
+};
+
+export type DownloadFilters = {
+  categoryId?: number;
+  type?: DocumentTypeEnum;
+};
+
+export const documentTypeSlug = (type: DocumentTypeEnum) =>
+  toSlug(DocumentTypeMap[type]);
+
+export function formatFileSize(bytes: number) {
+  if (!bytes) return "";
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+const languageNames = new Intl.DisplayNames(["en"], { type: "language" });
+
+export function formatLanguage(code: string) {
+  try {
+    return languageNames.of(code) ?? code.toUpperCase();
+  } catch {
+    // Not a valid language tag, show whatever the backend sent
+    return code.toUpperCase();
+  }
+}
+
+/** Documents in type order, then by title, keeping the backend's order otherwise */
+export const sortDocuments = <T extends ProductDocument>(documents: T[]) =>
+  [...documents].sort(
+    (a, b) => a.type - b.type || a.title.localeCompare(b.title),
+  );
+
+/**
+ * Flatten the documents of every product into one library. Brochures and
+ * certificates are often shared by a whole range, so entries are merged by URL.
+ */
+export function collectDocuments(products: Products[]): DocumentEntry[] {
+  const entries = new Map<string, DocumentEntry>();
+
+  products.forEach((product) => {
+    (product.documents || []).forEach((document) => {
+      const entry = entries.get(document.url) || {
+        ...document,
+        products: [],
+        categoryIds: [],
+      };
+      entry.products.push({ id: product.id, name: product.name });
+      if (!entry.categoryIds.includes(product.productCategoryId)) {
+        entry.categoryIds.push(product.productCategoryId);
+      }
+      entries.set(document.url, entry);
+    });
+  });
+
+  return sortDocuments(Array.from(entries.values()));
+}
+
+/** Read `?category=<slug>&type=<slug>`, unknown values are ignored */
+export function parseDownloadFilters(
+  params: Record<string, string | string[] | undefined>,
+  categories: ProductCategory[],
+): DownloadFilters {
+  const categoryId = categories.find(
+    (c) => toSlug(c.name) === params.category,
+  )?.id;
+  const type = Object.keys(DocumentTypeMap)
+    .map(Number)
+    .find((t) => documentTypeSlug(t) === params.type);
+
+  return { categoryId, type };
+}
+
+export const filterDocuments = (
+  documents: DocumentEntry[],
+  { categoryId, type }: DownloadFilters,
+) =>
+  documents.filter(
+    (document) =>
+      (categoryId === undefined || document.categoryIds.includes(categoryId)) &&
+      (type === undefined || document.type === type),
+  );
@@ -0,0 +1,31 @@
+const MALAYSIA_CODE = "60";
+
+/**
+ * Normalise a phone number to E.164, e.g. `012-345 6789` to `+60123456789`.
+ * Numbers without a country code are read as Malaysian, anything with `+`
+ * or `00` in front is kept as international. Returns null when it can't be
+ * a phone number.
+ */
+export function normalisePhone(raw: string): string | null {
+  const trimmed = raw.trim();
+  if (!/^\+?[\d\s().-]+$/.test(trimmed)) return null;
+
+  const digits = trimmed.replace(/\D/g, "");
+  let international: string;
+  if (trimmed.startsWith("+")) {
+    international = digits;
+  } else if (digits.startsWith("00")) {
+    international = digits.slice(2);
+  } else if (digits.startsWith("0")) {
+    // Local format, 01x mobiles and 0x landlines have 8 to 10 digits after the 0
+    if (digits.length < 9 || digits.length > 11) return null;
+    international = MALAYSIA_CODE + digits.slice(1);
+  } else if (digits.startsWith(MALAYSIA_CODE)) {
+    international = digits;
+  } else {
+    return null;
+  }
+
+  // E.164 allows up to 15 digits, country code included
+  return /^[1-9]\d{7,14}$/.test(international) ? `+${international}` : null;
+}
@@ -0,0 +1,164 @@
+import { formatSpecValue } from "@/lib/helper/specifications";
+import { toSlug } from "@/lib/routes";
+import { ProductCategory, Products } from "@/types/products";
+
+export type FacetOption = {
+  /** Slug stored in the URL */
+  value: string;
+  label: string;
+  /** Matching products if this option were toggled on, given the other facets */
+  count: number;
+  selected: boolean;
+};
+
+export type Facet = {
+  /** Query string key, e.g. `manufacturer` or `coreMaterial` */
+  key: string;
+  label: string;
+  options: FacetOption[];
+};
+
+/** Selected option slugs per facet key */
+export type FacetSelection = Record<string, string[]>;
+
+type FacetDefinition = {
+  key: string;
+  label: string;
+  /** Options a product belongs to, usually one */
+  optionsFor: (product: Products) => { value: string; label: string }[];
+};
+
+/** Spec keys worth filtering on, other specs are only shown on the product page */
+const SPEC_FACETS = [
+  { key: "coreMaterial", label: "Core Material" },
+  { key: "thickness", label: "Thickness" },
+  { key: "fireRating", label: "Fire Rating" },
+];
+
+export function getProductFacetDefinitions(
+  categories: ProductCategory[],
+): FacetDefinition[] {
+  return [
+    {
+      key: "category",
+      label: "Categories",
+      optionsFor: (product) => {
+        const category = categories.find(
+          (c) => c.id === product.productCategoryId,
+        );
+        return category
+          ? [{ value: toSlug(category.name), label: category.name }]
+          : [];
+      },
+    },
+    {
+      key: "manufacturer",
+      label: "Manufacturers",
+      optionsFor: (product) =>
+        product.manufacturer
+          ? [
+              {
+                value: toSlug(product.manufacturer),
+                label: product.manufacturer,
+              },
+            ]
+          : [],
+    },
+    ...SPEC_FACETS.map(({ key, label }) => ({
+      key,
+      label,
+      optionsFor: (product: Products) =>
+        (product.specifications || [])
+          .filter((spec) => spec.key === key)
+          .map((spec) => ({
+            value: toSlug(String(spec.value)),
+            label: formatSpecValue(spec),
+          })),
+    })),
+  ];
+}
+
+/** Read comma separated facet values, e.g. `?manufacturer=danfoss,bitzer` */
+export function parseFacetSelection(
+  params: Record<string, string | string[] | undefined>,
+  definitions: FacetDefinition[],
+): FacetSelection {
+  return Object.fromEntries(
+    definitions.map(({ key }) => {
+      const raw = params[key];
+      const values = (Array.isArray(raw) ? raw.join(",") : raw || "")
+        .split(",")
+        .map((value) => value.trim().toLowerCase())
+        .filter(Boolean);
+      return [key, Array.from(new Set(values))];
+    }),
+  );
+}
+
+export const countSelected = (facets: Facet[]) =>
+  facets.reduce(
+    (total, facet) => total + facet.options.filter((o) => o.selected).length,
+    0,
+  );
+
+/** Same facet is OR, different facets are AND */
+const matches = (
+  product: Products,
+  definitions: FacetDefinition[],
+  selection: FacetSelection,
+  ignoreKey?: string,
+) =>
+  definitions.every(({ key, optionsFor }) => {
+    const selected = selection[key] || [];
+    if (key === ignoreKey || selected.length === 0) return true;
+    return optionsFor(product).some((option) =>
+      selected.includes(option.value),
+    );
+  });
+
+export function filterProducts(
+  products: Products[],
+  definitions: FacetDefinition[],
+  selection: FacetSelection,
+) {
+  return products.filter((product) => matches(product, definitions, selection));
+}
+
+/**
+ * Options for every facet with counts. Each facet is counted against the
+ * products matching the other facets, so picking a second manufacturer
+ * doesn't zero out the first.
+ */
+export function buildFacets(
+  products: Products[],
+  definitions: FacetDefinition[],
+  selection: FacetSelection,
+): Facet[] {
+  return definitions
+    .map(({ key, label, optionsFor }) => {
+      const selected = selection[key] || [];
+      const options = new Map<string, FacetOption>();
+
+      products.forEach((product) => {
+        const counted = matches(product, definitions, selection, key);
+        optionsFor(product).forEach((option) => {
+          const existing = options.get(option.value) || {
+            ...option,
+            count: 0,
+            selected: selected.includes(option.value),
+          };
+          if (counted) existing.count += 1;
+          options.set(option.value, existing);
+        });
+      });
+
+      return {
+        key,
+        label,
+        options: Array.from(options.values()).sort((a, b) =>
+          a.label.localeCompare(b.label, undefined, { numeric: true }),
+        ),
+      };
+    })
+    .filter((facet) => facet.options.length > 0);
+}
@@ -0,0 +1,29 @@
+import { SortByOption } from "@/lib/enum/sortByOption";
+import { Products } from "@/types/products";
+
+/** The backend's `name` filter, a case-insensitive substring match */
+export const searchProducts = (products: Products[], query: string) => {
+  const needle = query.trim().toLowerCase();
+  return needle
+    ? products.filter((product) => product.name.toLowerCase().includes(needle))
+    : products;
+};
+
+/** The orders the backend's `sortBy` applies, for lists sorted locally */
+export function sortProducts(products: Products[], sortBy: SortByOption) {
+  return [...products].sort((a, b) => {
+    switch (sortBy) {
+      case SortByOption.NameDesc:
+        return b.name.localeCompare(a.name);
+      case SortByOption.Newest:
+        return (b.id ?? 0) - (a.id ?? 0);
+      case SortByOption.Category:
+        return (
+          a.productCategoryId - b.productCategoryId ||
+          a.name.localeCompare(b.name)
+        );
+      default:
+        return a.name.localeCompare(b.name);
+    }
+  });
+}
@@ -0,0 +1,54 @@
+import { NextRequest } from "next/server";
+
+/**
+ * Caller's address for per-IP limits. Only headers the proxy sets are
+ * trusted: the platform's own, then the entry the proxy appended last to
+ * `x-forwarded-for`. Earlier entries come from the client and can be anything.
+ */
+export const clientIp = (request: NextRequest) =>
+  request.headers.get("x-vercel-forwarded-for")?.trim() ||
+  request.headers.get("x-forwarded-for")?.split(",").pop()?.trim() ||
+  "unknown";
+
+/** In-memory sliding window limiter, per server instance */
+export function createRateLimiter({
+  limit,
+  windowMs,
+}: {
+  limit: number;
+  windowMs: number;
+}) {
+  const hits = new Map<string, number[]>();
+
+  const prune = (now: number) => {
+    hits.forEach((times, key) => {
+      if (now - times[times.length - 1] >= windowMs) hits.delete(key);
+    });
+  };
+
+  return {
+    /** Record a hit for `key`, returns the seconds to wait when over the limit */
+    check(key: string, now = Date.now()) {
+      if (hits.size > 1000) prune(now);
+      const recent = (hits.get(key) || []).filter((t) => now - t < windowMs);
+
+      if (recent.length >= limit) {
+        hits.set(key, recent);
+        return {
+          allowed: false,
+          retryAfter: Math.ceil((recent[0] + windowMs - now) / 1000),
+        };
+      }
+
+      recent.push(now);
+      hits.set(key, recent);
+      return { allowed: true, retryAfter: 0 };
+    },
+    /** Forget the latest hit for `key`, when the work it stood for didn't happen */
+    release(key: string) {
+      const times = hits.get(key);
+      times?.pop();
+      if (times?.length === 0) hits.delete(key);
+    },
+  };
+}
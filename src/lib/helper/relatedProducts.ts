@@ -0,0 +1,62 @@
+import { Products } from "@/types/products";
+
+/** How much each kind of match counts towards a candidate's rank */
+const WEIGHTS = {
+  category: 4,
+  manufacturer: 2,
+  sharedSpec: 1,
+};
+
+const specValues = (product: Products) =>
+  new Set(
+    (product.specifications || []).map(
+      (spec) => `${spec.key}:${String(spec.value).toLowerCase()}`,
+    ),
+  );
+
+export function relatedScore(product: Products, candidate: Products) {
+  const specs = specValues(product);
+  const sharedSpecs = Array.from(specValues(candidate)).filter((value) =>
+    specs.has(value),
+  ).length;
+
+  return (
+    (candidate.productCategoryId === product.productCategoryId
+      ? WEIGHTS.category
+      : 0) +
+    (product.manufacturer &&
+    candidate.manufacturer.toLowerCase() === product.manufacturer.toLowerCase()
+      ? WEIGHTS.manufacturer
+      : 0) +
+    sharedSpecs * WEIGHTS.sharedSpec
+  );
+}
+
+/**
+ * Rank candidates by category, then manufacturer, then shared spec values,
+ * leaving out the product itself, duplicates and anything unrelated
+ */
+export function rankRelatedProducts(
+  product: Products,
+  candidates: Products[],
+  limit: number,
+) {
+  const seen = new Set<number | undefined>([product.id]);
+
+  return candidates
+    .filter(
+      (candidate) =>
+        candidate.isActive && !seen.has(candidate.id) && seen.add(candidate.id),
+    )
+    .map((candidate) => ({
+      candidate,
+      score: relatedScore(product, candidate),
+    }))
+    .filter(({ score }) => score > 0)
+    .sort(
+      (a, b) =>
+        b.score - a.score || a.candidate.name.localeCompare(b.candidate.name),
+    )
+    .slice(0, limit)
+    .map(({ candidate }) => candidate);
+}
@@ -0,0 +1,28 @@
+import {
+  SpecificationGroupEnum,
+  SpecificationGroupMap,
+} from "@/lib/enum/specificationGroup";
+import { ProductSpecification } from "@/types/products";
+
+export type SpecificationSection = {
+  group: SpecificationGroupEnum;
+  label: string;
+  specifications: ProductSpecification[];
+};
+
+export const formatSpecValue = ({ value, unit }: ProductSpecification) =>
+  unit ? `${value} ${unit}` : String(value);
+
+/** Bucket specs by group in enum order, keeping the backend's order within a group */
+export function groupSpecifications(
+  specifications: ProductSpecification[] = [],
+): SpecificationSection[] {
+  return Object.keys(SpecificationGroupMap)
+    .map(Number)
+    .map((group) => ({
+      group,
+      label: SpecificationGroupMap[group],
+      specifications: specifications.filter((s) => s.group === group),
+    }))
+    .filter((section) => section.specifications.length > 0);
+}
@@ -0,0 +1,62 @@
+const entities: Record<string, string> = {
+  "&nbsp;": " ",
+  "&amp;": "&",
+  "&lt;": "<",
+  "&gt;": ">",
+  "&quot;": '"',
+  "&#39;": "'",
+};
+
+/** In one pass, so `&amp;lt;` stays a literal `&lt;` */
+const decodeEntities = (text: string) =>
+  text.replace(/&(nbsp|amp|lt|gt|quot|#39);/g, (entity) => entities[entity]);
+
+/** Plain text from the rich text descriptions the backend stores */
+export const stripHtml = (html = "") =>
+  decodeEntities(html.replace(/<[^>]+>/g, " "))
+    .replace(/\s+/g, " ")
+    .trim();
+
+/** Like `stripHtml`, but keeps block elements and list items as separate lines */
+export const htmlToParagraphs = (html = "") =>
+  decodeEntities(
+    html
+      .replace(/<li[^>]*>/gi, "\n• ")
+      .replace(/<\/(p|div|li|ul|ol|h\d)>|<br\s*\/?>/gi, "\n")
+      .replace(/<[^>]+>/g, ""),
+  )
+    .split("\n")
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .filter(Boolean);
+
+/** Shorter queries match almost everything */
+export const MIN_SEARCH_LENGTH = 2;
+
+/** Longer queries are cut short before they reach the API */
+export const MAX_SEARCH_LENGTH = 100;
+
+/** Search terms, lower cased and split on whitespace */
+export const searchTerms = (query: string) =>
+  query.toLowerCase().split(/\s+/).filter(Boolean);
+
+/** Whether every term appears somewhere in the text */
+export const matchesTerms = (text: string, terms: string[]) => {
+  const haystack = text.toLowerCase();
+  return terms.every((term) => haystack.includes(term));
+};
+
+/** About `length` characters of text centred on the first matching term */
+export function excerpt(text: string, terms: string[], length = 140) {
+  if (text.length <= length) return text;
+
+  const haystack = text.toLowerCase();
+  const first = Math.min(
+    ...terms.map((term) => haystack.indexOf(term)).filter((i) => i >= 0),
+  );
+  const start = Number.isFinite(first)
+    ? Math.max(0, Math.min(first - length / 3, text.length - length))
+    : 0;
+  const end = start + length;
+
+  return `${start > 0 ? "…" : ""}${text.slice(start, end).trim()}${end < text.length ? "…" : ""}`;
+}
@@ -0,0 +1,27 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { getEnquiryFormToken } from "@/api/api";
+
+/**
+ * Token for the enquiry route's fill-time check, fetched each time the form
+ * opens. Tokens are checked once per submission, so `refresh` after each one.
+ */
+export function useEnquiryFormToken(open = true) {
+  const [token, setToken] = useState("");
+
+  const refresh = useCallback(() => {
+    setToken("");
+    getEnquiryFormToken()
+      .then(({ data }) => setToken(data))
+      .catch((error) =>
+        console.warn("Enquiry form token could not be loaded", error),
+      );
+  }, []);
+
+  useEffect(() => {
+    if (open) refresh();
+  }, [open, refresh]);
+
+  return [token, refresh] as const;
+}
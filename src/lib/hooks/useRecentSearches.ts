@@ -0,0 +1,40 @@
+"use client";
+
+import { useCallback } from "react";
+import { useStoredState } from "./useStoredState";
+
+const MAX_RECENT = 5;
+
+const parseRecent = (stored: unknown) =>
+  Array.isArray(stored)
+    ? stored
+        .filter((q): q is string => typeof q === "string")
+        .slice(0, MAX_RECENT)
+    : undefined;
+
+/** Last few queries, newest first, shared by the palette and the search page */
+export function useRecentSearches() {
+  const [recent, setRecent] = useStoredState<string[]>(
+    "recent-searches",
+    [],
+    parseRecent,
+  );
+
+  const addRecent = useCallback(
+    (query: string) => {
+      const trimmed = query.trim();
+      if (!trimmed) return;
+      setRecent((current) =>
+        [
+          trimmed,
+          ...current.filter((q) => q.toLowerCase() !== trimmed.toLowerCase()),
+        ].slice(0, MAX_RECENT),
+      );
+    },
+    [setRecent],
+  );
+
+  const clearRecent = useCallback(() => setRecent([]), [setRecent]);
+
+  return { recent, addRecent, clearRecent };
+}
@@ -0,0 +1,15 @@
+"use client";
+
+import { EMPTY_PLAN, RoomPlan } from "@/lib/calculators/coldRoomLayout";
+import { roomPlanSchema } from "@/lib/enquiry/schema";
+import { useStoredState } from "./useStoredState";
+
+const parsePlan = (stored: unknown) => {
+  const result = roomPlanSchema.safeParse(stored);
+  return result.success ? (result.data as RoomPlan) : undefined;
+};
+
+/** The layout planner drawing, kept in this browser until it's sent with an enquiry */
+export function useRoomPlan() {
+  return useStoredState<RoomPlan>("cold-room-plan", EMPTY_PLAN, parsePlan);
+}
@@ -0,0 +1,40 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+
+/**
+ * `useState` backed by localStorage. The stored value is read after mount so
+ * the server and first client render agree, `parse` can reject stale shapes.
+ */
+export function useStoredState<T>(
+  key: string,
+  initialValue: T,
+  parse: (stored: unknown) => T | undefined = (stored) => stored as T,
+) {
+  const [value, setValue] = useState<T>(initialValue);
+  const [loaded, setLoaded] = useState(false);
+  // Callers pass `parse` inline, only a new key should reload the value
+  const parseRef = useRef(parse);
+
+  useEffect(() => {
+    parseRef.current = parse;
+  }, [parse]);
+
+  useEffect(() => {
+    try {
+      const stored = localStorage.getItem(key);
+      const parsed =
+        stored === null ? undefined : parseRef.current(JSON.parse(stored));
+      if (parsed !== undefined) setValue(parsed);
+    } catch {
+      localStorage.removeItem(key);
+    }
+    setLoaded(true);
+  }, [key]);
+
+  useEffect(() => {
+    if (loaded) localStorage.setItem(key, JSON.stringify(value));
+  }, [key, value, loaded]);
+
+  return [value, setValue] as const;
+}
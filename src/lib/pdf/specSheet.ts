@@ -0,0 +1,421 @@
+import {
+  PDFDocument,
+  PDFFont,
+  PDFImage,
+  PDFPage,
+  RGB,
+  StandardFonts,
+  rgb,
+} from "pdf-lib";
+import QRCode from "qrcode";
+import { formatDate } from "@/lib/helper/dateformatter";
+import {
+  formatSpecValue,
+  groupSpecifications,
+} from "@/lib/helper/specifications";
+import { htmlToParagraphs } from "@/lib/helper/text";
+import { routes } from "@/lib/routes";
+import {
+  BASE_URL,
+  COMPANY_ADDRESS,
+  COMPANY_EMAIL,
+  COMPANY_NAME,
+  COMPANY_PHONE,
+} from "@/lib/seo/config";
+import { Products } from "@/types/products";
+
+/** Fetch image bytes, resolving to null when the image can't be loaded */
+export type ImageLoader = (src: string) => Promise<Uint8Array | null>;
+
+type SpecSheetInput = {
+  product: Products;
+  categoryName?: string;
+  loadImage: ImageLoader;
+};
+
+// A4 in points
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 40;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_HEIGHT = 30;
+const MAX_IMAGES = 2;
+
+const colors = {
+  primary: rgb(0.902, 0.224, 0.275),
+  text: rgb(0.1, 0.1, 0.1),
+  muted: rgb(0.4, 0.4, 0.4),
+  rule: rgb(0.85, 0.85, 0.85),
+  shade: rgb(0.95, 0.95, 0.95),
+};
+
+/** Embed JPEG or PNG bytes, other formats are skipped */
+async function embedImage(pdf: PDFDocument, bytes: Uint8Array | null) {
+  if (!bytes) return null;
+  try {
+    if (bytes[0] === 0xff && bytes[1] === 0xd8)
+      return await pdf.embedJpg(bytes);
+    if (bytes[0] === 0x89 && bytes[1] === 0x50)
+      return await pdf.embedPng(bytes);
+  } catch (error) {
+    console.warn("Skipping unreadable spec sheet image", error);
+  }
+  return null;
+}
+
+/** Keeps a cursor down the page and starts a new page when content runs out */
+class Layout {
+  page!: PDFPage;
+  y = 0;
+
+  constructor(
+    private pdf: PDFDocument,
+    readonly regular: PDFFont,
+    readonly bold: PDFFont,
+  ) {
+    this.addPage();
+  }
+
+  addPage() {
+    this.page = this.pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  /** Start a new page unless `height` still fits above the footer */
+  ensureSpace(height: number) {
+    if (this.y - height < MARGIN + FOOTER_HEIGHT) this.addPage();
+  }
+
+  /** Standard fonts only cover WinAnsi, so swap anything else for `?` */
+  sanitize(text: string, font: PDFFont) {
+    const supported = new Set(font.getCharacterSet());
+    return Array.from(text)
+      .map((char) => (supported.has(char.codePointAt(0)!) ? char : "?"))
+      .join("");
+  }
+
+  wrap(text: string, font: PDFFont, size: number, width: number) {
+    const lines: string[] = [];
+    let line = "";
+    this.sanitize(text, font)
+      .split(" ")
+      .forEach((word) => {
+        const candidate = line ? `${line} ${word}` : word;
+        if (line && font.widthOfTextAtSize(candidate, size) > width) {
+          lines.push(line);
+          line = word;
+        } else {
+          line = candidate;
+        }
+      });
+    if (line) lines.push(line);
+    return lines;
+  }
+
+  text(
+    text: string,
+    {
+      font = this.regular,
+      size = 10,
+      color = colors.text,
+      x = MARGIN,
+      width = CONTENT_WIDTH,
+      lineGap = 4,
+    }: {
+      font?: PDFFont;
+      size?: number;
+      color?: RGB;
+      x?: number;
+      width?: number;
+      lineGap?: number;
+    } = {},
+  ) {
+    this.wrap(text, font, size, width).forEach((line) => {
+      this.ensureSpace(size + lineGap);
+      this.y -= size;
+      this.page.drawText(line, { x, y: this.y, size, font, color });
+      this.y -= lineGap;
+    });
+  }
+
+  heading(text: string) {
+    this.ensureSpace(40);
+    this.y -= 14;
+    this.text(text, { font: this.bold, size: 13, color: colors.primary });
+    this.y -= 4;
+  }
+
+  rule(color = colors.rule, thickness = 0.75) {
+    this.page.drawLine({
+      start: { x: MARGIN, y: this.y },
+      end: { x: PAGE_WIDTH - MARGIN, y: this.y },
+      thickness,
+      color,
+    });
+  }
+}
+
+function drawHeader(layout: Layout, logo: PDFImage | null) {
+  const { page, regular, bold } = layout;
+  const top = layout.y;
+  let logoHeight = 0;
+
+  if (logo) {
+    const scaled = logo.scaleToFit(80, 50);
+    page.drawImage(logo, {
+      x: MARGIN,
+      y: top - scaled.height,
+      ...scaled,
+    });
+    logoHeight = scaled.height;
+  }
+
+  const details = [
+    { text: COMPANY_NAME, font: bold, size: 10 },
+    ...[
+      COMPANY_ADDRESS,
+      `Tel: ${COMPANY_PHONE}  |  ${COMPANY_EMAIL}`,
+      BASE_URL.replace(/^https?:\/\//, ""),
+    ].map((text) => ({ text, font: regular, size: 8 })),
+  ];
+  const right = PAGE_WIDTH - MARGIN;
+  let y = top;
+  details.forEach(({ text, font, size }) => {
+    layout.wrap(text, font, size, 300).forEach((line) => {
+      y -= size + 2;
+      page.drawText(line, {
+        x: right - font.widthOfTextAtSize(line, size),
+        y,
+        size,
+        font,
+        color: font === bold ? colors.text : colors.muted,
+      });
+    });
+  });
+
+  layout.y = Math.min(top - logoHeight, y) - 10;
+  layout.rule(colors.primary, 2);
+  layout.y -= 10;
+}
+
+function drawQrCode(
+  page: PDFPage,
+  url: string,
+  x: number,
+  y: number,
+  size: number,
+) {
+  const { modules } = QRCode.create(url, { errorCorrectionLevel: "M" });
+  const cell = size / modules.size;
+
+  for (let row = 0; row < modules.size; row++) {
+    for (let col = 0; col < modules.size; col++) {
+      if (!modules.get(row, col)) continue;
+      page.drawRectangle({
+        x: x + col * cell,
+        y: y + size - (row + 1) * cell,
+        width: cell,
+        height: cell,
+        color: rgb(0, 0, 0),
+      });
+    }
+  }
+}
+
+function drawTitle(layout: Layout, product: Products, categoryName?: string) {
+  const qrSize = 72;
+  const url = `${BASE_URL}${routes.product(product)}`;
+  const top = layout.y;
+  const textWidth = CONTENT_WIDTH - qrSize - 16;
+
+  drawQrCode(
+    layout.page,
+    url,
+    PAGE_WIDTH - MARGIN - qrSize,
+    top - qrSize,
+    qrSize,
+  );
+  const caption = "Scan for the latest details";
+  layout.page.drawText(caption, {
+    x:
+      PAGE_WIDTH -
+      MARGIN -
+      qrSize / 2 -
+      layout.regular.widthOfTextAtSize(caption, 6) / 2,
+    y: top - qrSize - 9,
+    size: 6,
+    font: layout.regular,
+    color: colors.muted,
+  });
+
+  layout.text(product.name, { font: layout.bold, size: 20, width: textWidth });
+  const subtitle = [categoryName, product.manufacturer]
+    .filter(Boolean)
+    .join("  |  ");
+  if (subtitle) {
+    layout.text(subtitle, { size: 11, color: colors.muted, width: textWidth });
+  }
+  layout.y = Math.min(layout.y, top - qrSize - 14);
+}
+
+async function drawImages(
+  layout: Layout,
+  pdf: PDFDocument,
+  product: Products,
+  loadImage: ImageLoader,
+) {
+  const sources = (product.imageUrls || []).slice(0, MAX_IMAGES);
+  const images = (
+    await Promise.all(
+      sources.map(async (src) => embedImage(pdf, await loadImage(src))),
+    )
+  ).filter((image): image is PDFImage => image !== null);
+  if (images.length === 0) return;
+
+  const gap = 12;
+  const boxWidth = (CONTENT_WIDTH - gap * (images.length - 1)) / images.length;
+  const boxHeight = 200;
+  layout.ensureSpace(boxHeight + 10);
+  layout.y -= 10;
+
+  images.forEach((image, index) => {
+    const scaled = image.scaleToFit(boxWidth, boxHeight);
+    layout.page.drawImage(image, {
+      x: MARGIN + index * (boxWidth + gap) + (boxWidth - scaled.width) / 2,
+      y: layout.y - boxHeight + (boxHeight - scaled.height) / 2,
+      ...scaled,
+    });
+  });
+  layout.y -= boxHeight;
+}
+
+function drawSpecifications(layout: Layout, product: Products) {
+  const sections = groupSpecifications(product.specifications);
+  if (sections.length === 0) return;
+
+  layout.heading("Technical Specifications");
+  const rowHeight = 18;
+  const labelWidth = CONTENT_WIDTH / 2;
+
+  const row = (label: string, value: string, isGroup: boolean) => {
+    layout.ensureSpace(rowHeight);
+    const { page } = layout;
+    const y = layout.y - rowHeight;
+    if (isGroup) {
+      page.drawRectangle({
+        x: MARGIN,
+        y,
+        width: CONTENT_WIDTH,
+        height: rowHeight,
+        color: colors.shade,
+      });
+    } else {
+      page.drawLine({
+        start: { x: MARGIN, y },
+        end: { x: PAGE_WIDTH - MARGIN, y },
+        thickness: 0.5,
+        color: colors.rule,
+      });
+    }
+    const font = isGroup ? layout.bold : layout.regular;
+    page.drawText(layout.sanitize(label, font), {
+      x: MARGIN + 6,
+      y: y + 6,
+      size: 9,
+      font,
+      color: isGroup ? colors.text : colors.muted,
+    });
+    if (value) {
+      page.drawText(layout.sanitize(value, layout.regular), {
+        x: MARGIN + labelWidth,
+        y: y + 6,
+        size: 9,
+        font: layout.regular,
+        color: colors.text,
+      });
+    }
+    layout.y = y;
+  };
+
+  sections.forEach((section) => {
+    row(section.label, "", true);
+    section.specifications.forEach((spec) =>
+      row(spec.label, formatSpecValue(spec), false),
+    );
+  });
+}
+
+function drawFooters(pdf: PDFDocument, font: PDFFont, product: Products) {
+  const pages = pdf.getPages();
+  const left = `${COMPANY_NAME}  |  Generated ${formatDate(new Date().toISOString())}  |  Specifications are subject to change without notice`;
+  const url = `${BASE_URL}${routes.product(product)}`;
+
+  pages.forEach((page, index) => {
+    page.drawLine({
+      start: { x: MARGIN, y: MARGIN + 14 },
+      end: { x: PAGE_WIDTH - MARGIN, y: MARGIN + 14 },
+      thickness: 0.5,
+      color: colors.rule,
+    });
+    page.drawText(left, {
+      x: MARGIN,
+      y: MARGIN + 3,
+      size: 7,
+      font,
+      color: colors.muted,
+    });
+    const pageLabel = `Page ${index + 1} of ${pages.length}`;
+    page.drawText(pageLabel, {
+      x: PAGE_WIDTH - MARGIN - font.widthOfTextAtSize(pageLabel, 7),
+      y: MARGIN + 3,
+      size: 7,
+      font,
+      color: colors.muted,
+    });
+    page.drawText(url, {
+      x: MARGIN,
+      y: MARGIN - 7,
+      size: 7,
+      font,
+      color: colors.muted,
+    });
+  });
+}
+
+/** Render a branded A4 spec sheet for a product, returning the PDF bytes */
+export async function renderSpecSheet({
+  product,
+  categoryName,
+  loadImage,
+}: SpecSheetInput) {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(`${product.name} - Specification Sheet`);
+  pdf.setAuthor(COMPANY_NAME);
+  pdf.setSubject(product.name);
+  pdf.setCreator(BASE_URL);
+
+  const [regular, bold, logo] = await Promise.all([
+    pdf.embedFont(StandardFonts.Helvetica),
+    pdf.embedFont(StandardFonts.HelveticaBold),
+    loadImage("/images/logo.png").then((bytes) => embedImage(pdf, bytes)),
+  ]);
+  const layout = new Layout(pdf, regular, bold);
+
+  drawHeader(layout, logo);
+  drawTitle(layout, product, categoryName);
+  await drawImages(layout, pdf, product, loadImage);
+
+  const paragraphs = htmlToParagraphs(product.description);
+  if (paragraphs.length > 0) {
+    layout.heading("Product Details");
+    paragraphs.forEach((paragraph) => {
+      layout.text(paragraph, { lineGap: 3 });
+      layout.y -= 4;
+    });
+  }
+
+  drawSpecifications(layout, product);
+  drawFooters(pdf, regular, product);
+
+  return pdf.save();
+}
@@ -0,0 +1,57 @@
+/**
+ * Settings client components may read. Plain lookups with defaults, so the
+ * env schema in `@/lib/config` stays out of the browser bundle; the server
+ * imports that module on every render and refuses to start on bad values.
+ */
+
+export const PUBLIC_DEFAULTS = {
+  apiUrl: "http://localhost:5000/api/v1",
+  whatsapp: "60177023282",
+  botpressInjectUrl: "https://cdn.botpress.cloud/webchat/v3.2/inject.js",
+  botpressConfigUrl:
+    "https://files.bpcontent.cloud/2025/07/16/15/20250716155644-MH80SNP6.js",
+  mapTileUrl: "https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png",
+  mapAttribution:
+    '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
+} as const;
+
+// NEXT_PUBLIC_* values are inlined at build time, so each one must be referenced literally
+const useMockApi = process.env.NEXT_PUBLIC_USE_MOCK_API === "true";
+const whatsapp = process.env.NEXT_PUBLIC_WHATSAPP || PUBLIC_DEFAULTS.whatsapp;
+
+/** Server renders need an absolute URL for the mock API, the browser can stay relative */
+const mockApiBaseUrl =
+  typeof window === "undefined"
+    ? `http://localhost:${process.env.PORT || 3000}/api/mock`
+    : "/api/mock";
+
+export const publicConfig = {
+  isProduction: process.env.NODE_ENV === "production",
+  api: {
+    baseUrl: useMockApi
+      ? mockApiBaseUrl
+      : (process.env.NEXT_PUBLIC_API_URL || PUBLIC_DEFAULTS.apiUrl).replace(
+          /\/$/,
+          "",
+        ),
+    /** Serve API calls from the bundled fixtures instead of a real backend */
+    useMock: useMockApi,
+  },
+  whatsapp: {
+    number: whatsapp,
+    url: `https://wa.me/${whatsapp}`,
+  },
+  botpress: {
+    injectScriptUrl:
+      process.env.NEXT_PUBLIC_BOTPRESS_INJECT_URL ||
+      PUBLIC_DEFAULTS.botpressInjectUrl,
+    configScriptUrl:
+      process.env.NEXT_PUBLIC_BOTPRESS_CONFIG_URL ||
+      PUBLIC_DEFAULTS.botpressConfigUrl,
+  },
+  map: {
+    tileUrl: process.env.NEXT_PUBLIC_MAP_TILE_URL || PUBLIC_DEFAULTS.mapTileUrl,
+    attribution:
+      process.env.NEXT_PUBLIC_MAP_ATTRIBUTION || PUBLIC_DEFAULTS.mapAttribution,
+  },
+} as const;
@@ -0,0 +1,105 @@
+import slugify from "slugify";
+import { EnquiryLink } from "@/types/enquiry";
+import { News } from "@/types/news";
+import { Products } from "@/types/products";
+import { Projects } from "@/types/projects";
+
+/** The one slug format for every URL and filter on the site */
+export const toSlug = (text: string) => slugify(text, { lower: true });
+
+/** `<slug>-<id>` segment used by the detail routes */
+export const toSlugWithId = (text: string, id?: number) =>
+  `${toSlug(text)}-${id}`;
+
+export const routes = {
+  product: (product: Pick<Products, "id" | "name">) =>
+    `/products/${toSlugWithId(product.name, product.id)}`,
+  /** PDF spec sheet served by the route handler under the product page */
+  productSpecSheet: (product: Pick<Products, "id" | "name">) =>
+    `${routes.product(product)}/spec-sheet`,
+  /** Product list narrowed by facets, e.g. `{ coreMaterial: "PIR", thickness: 100 }` */
+  products: (filters: Record<string, string | number> = {}) => {
+    const params = new URLSearchParams(
+      Object.entries(filters).map(([key, value]) => [
+        key,
+        toSlug(String(value)),
+      ]),
+    );
+    const query = params.toString();
+    return `/products${query ? `?${query}` : ""}`;
+  },
+  productCategory: (categoryName: string) =>
+    `/products?category=${toSlug(categoryName)}`,
+  compareProducts: (ids: number[]) =>
+    ids.length > 0
+      ? `/products/compare?ids=${ids.join(",")}`
+      : "/products/compare",
+  downloads: (categoryName?: string) =>
+    categoryName ? `/downloads?category=${toSlug(categoryName)}` : "/downloads",
+  news: (news: Pick<News, "id" | "title">) =>
+    `/news/${toSlugWithId(news.title, news.id)}`,
+  project: (project: Pick<Projects, "id" | "name">) =>
+    `/projects/${toSlugWithId(project.name, project.id)}`,
+  layoutPlanner: () => "/tools/layout-planner",
+  /** Estimator prefilled from a query built by `toLoadQuery` */
+  refrigerationLoadEstimator: (loadQuery?: string) =>
+    `/tools/refrigeration-load${loadQuery ? `?${loadQuery}` : ""}`,
+  search: (query: string) => `/search?q=${encodeURIComponent(query.trim())}`,
+  /** Contact page enquiry form, read back with `parseEnquiryContext` */
+  enquiry: ({
+    type,
+    productId,
+    projectRef,
+    source,
+    loadQuery,
+    attachLayout,
+  }: EnquiryLink = {}) => {
+    const params = new URLSearchParams();
+    if (type !== undefined) params.set("type", String(type));
+    if (productId !== undefined) params.set("product", String(productId));
+    if (projectRef) params.set("project", projectRef);
+    if (source) params.set("source", source);
+    if (loadQuery) params.set("load", loadQuery);
+    if (attachLayout) params.set("layout", "1");
+    const query = params.toString();
+    return `/contact${query ? `?${query}` : ""}#enquiry`;
+  },
+};
+
+const safeDecode = (segment: string) => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    // Malformed escapes can never match a canonical slug anyway
+    return segment;
+  }
+};
+
+/**
+ * Split a `[slugWithId]` route param, the id is the trailing number and the
+ * slug may be empty (`/products/12`). Returns null when there's no valid id.
+ */
+export function parseSlugWithId(slugWithId: string) {
+  const match = /^(?:(.*)-)?(\d+)$/.exec(safeDecode(slugWithId));
+  if (!match) return null;
+
+  return { slug: match[1] ?? "", id: Number(match[2]) };
+}
+
+/** `path` with a page's `searchParams`, so redirects keep the query string */
+export function withSearchParams(
+  path: string,
+  searchParams: { [key: string]: string | string[] | undefined },
+) {
+  const params = new URLSearchParams();
+  Object.entries(searchParams).forEach(([key, value]) =>
+    [value ?? []].flat().forEach((v) => params.append(key, v)),
+  );
+  const query = params.toString();
+  return query ? `${path}?${query}` : path;
+}
+
+/** Whether the requested `[slugWithId]` param is the last segment of the canonical path */
+export const isCanonicalSlug = (slugWithId: string, canonicalPath: string) =>
+  safeDecode(slugWithId) ===
+  canonicalPath.slice(canonicalPath.lastIndexOf("/") + 1);
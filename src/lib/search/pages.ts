@@ -0,0 +1,114 @@
+import ourServicesData from "@/components/Services/ourServicesData";
+
+export type SitePage = {
+  title: string;
+  href: string;
+  description: string;
+  /** Extra words people search for that aren't in the title or description */
+  keywords?: string[];
+};
+
+/** Static pages offered by the site search, the API only covers dynamic content */
+export const sitePages: SitePage[] = [
+  {
+    title: "About Us",
+    href: "/about",
+    description:
+      "Since 1978, United Panel-System has been producing insulated panels and refrigeration systems for the industrial sector.",
+    keywords: ["company", "history", "manufacturing plant", "factory"],
+  },
+  {
+    title: "Certifications",
+    href: "/about/certifications",
+    description:
+      "Our UR® panels are certified to meet international quality and safety standards.",
+    keywords: [
+      "TÜV Rheinland",
+      "SIRIM",
+      "Bomba",
+      "FM Global",
+      "FM Approved",
+      "ISO 9001",
+      "UNDP",
+      "fire",
+    ],
+  },
+  {
+    title: "Services",
+    href: "/services",
+    description:
+      "From consultancy and site survey to design, installation, commissioning and after sales support.",
+    keywords: ["shipping", "delivery"],
+  },
+  ...ourServicesData.map((service) => ({
+    title: service.title,
+    href: "/services",
+    description: service.description,
+  })),
+  {
+    title: "Product Categories",
+    href: "/products/category",
+    description:
+      "Browse PIR, PU and PS panels, cold room doors and refrigeration equipment.",
+  },
+  {
+    title: "Downloads",
+    href: "/downloads",
+    description:
+      "Datasheets, brochures, installation guides and test certificates for our products.",
+    keywords: ["pdf", "datasheet", "brochure", "certificate", "manual"],
+  },
+  {
+    title: "Panel Thickness Calculator",
+    href: "/tools/panel-thickness",
+    description:
+      "Work out the PIR, PU or PS panel thickness a cold room needs from its temperatures and a heat loss or U-value target.",
+    keywords: [
+      "insulation",
+      "u-value",
+      "heat loss",
+      "freezer",
+      "chiller",
+      "mm",
+    ],
+  },
+  {
+    title: "Refrigeration Load Estimator",
+    href: "/tools/refrigeration-load",
+    description:
+      "Estimate the refrigeration capacity in kW a cold room needs from its size, set-point, product throughput and door openings.",
+    keywords: [
+      "cooling",
+      "capacity",
+      "kw",
+      "compressor",
+      "condensing unit",
+      "heat load",
+    ],
+  },
+  {
+    title: "Cold Room Layout Planner",
+    href: "/tools/layout-planner",
+    description:
+      "Sketch a cold room's walls, doors and partitions on a grid and get the panels, doors and trims it needs.",
+    keywords: ["floor plan", "drawing", "bill of materials", "bom", "quantity"],
+  },
+  {
+    title: "Projects",
+    href: "/projects",
+    description: "Cold rooms and insulated panel projects we have completed.",
+    keywords: ["references", "portfolio", "case study"],
+  },
+  {
+    title: "News",
+    href: "/news",
+    description: "Company news, events and exhibitions.",
+  },
+  {
+    title: "Contact Us",
+    href: "/contact",
+    description:
+      "Get in touch with our Johor Bahru headquarters or Kuala Lumpur offices for quotes and enquiries.",
+    keywords: ["quote", "enquiry", "phone", "email", "address", "whatsapp"],
+  },
+];
@@ -1,4 +1,6 @@
-export const BASE_URL = process.env.NEXT_PUBLIC_SITE_URL || "https://ur-customer-support-web-nextjs.vercel.app";
+import { config } from "@/lib/config";
+
+export const BASE_URL = config.siteUrl;
 
 export const COMPANY_NAME = "United Panel-System (M) Sdn. Bhd.";
 
@@ -6,6 +8,11 @@ export const COMPANY_LOGO = `${BASE_URL}/images/logo.png`;
 
 export const COMPANY_PHONE = "+6075951588";
 
+export const COMPANY_EMAIL = "united@ur.com.my";
+
+export const COMPANY_ADDRESS =
+    "PTD 124299, Jalan Kempas Lama, Kampung Seelong Jaya, 81300 Skudai, Johor, Malaysia.";
+
 export const COMPANY_LANGUAGES = ["English", "Malay"];
 
 export const COMPANY_SOCIAL = [
@@ -1,4 +1,3 @@
-import slugify from "slugify";
 import { News } from "@/types/news";
 import {
     BASE_URL,
@@ -11,6 +10,7 @@ import {
 } from "./config";
 import { Products } from "@/types/products";
 import { Projects } from "@/types/projects";
+import { routes } from "@/lib/routes";
 
 export const getOrganizationSchema = () => ({
     "@context": "https://schema.org",
@@ -81,14 +81,14 @@ export const getPaginatedNewsSchema = (newsList: News[], currentPage: number) =>
         hasPart: newsList.map(news => ({
             "@type": "NewsArticle",
             headline: news.title,
-            url: `${BASE_URL}/news/${slugify(news.title, { lower: true })}-${news.id}`,
+            url: `${BASE_URL}${routes.news(news)}`,
             datePublished: news.date
         }))
     };
 };
 
 export const getNewsSchema = (newsData: News) => {
-    const url = `${BASE_URL}/news/${slugify(newsData.title, { lower: true })}-${newsData.id}`;
+    const url = `${BASE_URL}${routes.news(newsData)}`;
 
     return {
         "@context": "https://schema.org",
@@ -121,7 +121,7 @@ export const getPaginatedProductSchema = (productList: Products[], currentPage:
         hasPart: productList.map(product => ({
             "@type": "Product",
             name: product.name,
-            url: `${BASE_URL}/products/${slugify(product.name, { lower: true })}-${product.id}`,
+            url: `${BASE_URL}${routes.product(product)}`,
             image: product.imageUrls?.[0],
             brand: {
                 "@type": "Brand",
@@ -132,7 +132,7 @@ export const getPaginatedProductSchema = (productList: Products[], currentPage:
 };
 
 export const getProductSchema = (product: Products) => {
-    const url = `${BASE_URL}/products/${slugify(product.name, { lower: true })}-${product.id}`;
+    const url = `${BASE_URL}${routes.product(product)}`;
 
     return {
         "@context": "https://schema.org",
@@ -145,6 +145,13 @@ export const getProductSchema = (product: Products) => {
             "@type": "Brand",
             name: PRODUCT_BRAND
         },
+        additionalProperty: product.specifications?.map(spec => ({
+            "@type": "PropertyValue",
+            propertyID: spec.key,
+            name: spec.label,
+            value: spec.value,
+            unitText: spec.unit
+        })),
         mainEntityOfPage: {
             "@type": "WebPage",
             "@id": url
@@ -162,7 +169,7 @@ export const getProjectListSchema = (projects: Projects[]) => {
         hasPart: projects.map(project => ({
             "@type": "CreativeWork",
             name: project.name,
-            url: `${BASE_URL}/projects/${slugify(project.name, { lower: true })}-${project.id}`,
+            url: `${BASE_URL}${routes.project(project)}`,
             image: project.imageUrls?.[0],
             creator: {
                 "@type": "Organization",
@@ -175,7 +182,7 @@ export const getProjectListSchema = (projects: Projects[]) => {
 
 
 export const getProjectSchema = (project: Projects) => {
-    const url = `${BASE_URL}/projects/${slugify(project.name, { lower: true })}-${project.id}`;
+    const url = `${BASE_URL}${routes.project(project)}`;
 
     return {
         "@context": "https://schema.org",
@@ -0,0 +1,85 @@
+import { BillOfMaterials, RoomPlan } from "@/lib/calculators/coldRoomLayout";
+import { LoadEstimate, LoadInputs } from "@/lib/calculators/refrigerationLoad";
+import { EnquiryTypeEnum } from "@/lib/enum/enquiryType";
+
+/** One product in a multi-product quote request */
+export type EnquiryLineItem = {
+  productId: number;
+  productName: string;
+  quantity: number;
+  notes?: string;
+};
+
+/** Refrigeration load estimator inputs and result, sent with a Cold Room Design enquiry */
+export type EnquiryLoadEstimate = LoadEstimate & { inputs: LoadInputs };
+
+/** Layout planner drawing and the materials taken off it */
+export type EnquiryRoomLayout = {
+  plan: RoomPlan;
+  billOfMaterials: BillOfMaterials;
+};
+
+/** Extra details each enquiry type asks for, sent as `Enquiry.details` */
+export type EnquiryDetailsByType = {
+  [EnquiryTypeEnum.ProductEnquiry]: Record<string, never>;
+  [EnquiryTypeEnum.ConsultancyAndSiteSurvey]: {
+    address: string;
+    /** Local date and time as entered, `YYYY-MM-DDTHH:mm` */
+    preferredDateTime: string;
+  };
+  [EnquiryTypeEnum.ColdRoomDesign]: {
+    roomSize: string;
+    /** Room set-point, °C */
+    temperature: number;
+    loadEstimate?: EnquiryLoadEstimate;
+    layout?: EnquiryRoomLayout;
+  };
+  [EnquiryTypeEnum.ColdRoomRepairAndMaintenance]: Record<string, never>;
+};
+
+type EnquiryBase = {
+  name: string;
+  companyName: string;
+  email: string;
+  phone: string;
+  message: string;
+  items?: EnquiryLineItem[];
+  /** Product the visitor asked about, when they came from a product page */
+  productId?: number;
+  projectRef?: string;
+  /** Page or campaign the lead came from */
+  source?: string;
+};
+
+/** An enquiry of any type, `details` narrows with `type` */
+export type Enquiry = {
+  [T in EnquiryTypeEnum]: EnquiryBase & {
+    type: T;
+    details: EnquiryDetailsByType[T];
+  };
+}[EnquiryTypeEnum];
+
+/** What a link into the enquiry form can preselect, carried in the query string */
+export type EnquiryContext = {
+  type?: EnquiryTypeEnum;
+  productId?: number;
+  projectRef?: string;
+  source?: string;
+  /** Estimator inputs, the result is recalculated from them */
+  loadInputs?: LoadInputs;
+  /** Attach the plan saved in this browser by the layout planner */
+  attachLayout?: boolean;
+};
+
+/** What `routes.enquiry` takes, the estimator inputs already built by `toLoadQuery` */
+export type EnquiryLink = Omit<EnquiryContext, "loadInputs"> & {
+  loadQuery?: string;
+};
+
+/** What the enquiry form posts to /api/enquiry, including the spam checks */
+export type EnquirySubmission = Enquiry & {
+  /** Honeypot, hidden from people and left empty by them */
+  website?: string;
+  /** Signed issue time from `GET /api/enquiry`, fetched when the form opens */
+  formToken: string;
+};
@@ -1,3 +1,26 @@
+import { DocumentTypeEnum } from "@/lib/enum/documentType";
+import { SpecificationGroupEnum } from "@/lib/enum/specificationGroup";
+
+export type ProductSpecification = {
+  /** Stable identifier that lines the same spec up across products, e.g. `thickness` */
+  key: string;
+  label: string;
+  group: SpecificationGroupEnum;
+  value: string | number;
+  /** Display unit such as `mm` or `W/m²K`, left out for text values */
+  unit?: string;
+};
+
+export type ProductDocument = {
+  title: string;
+  type: DocumentTypeEnum;
+  /** ISO 639-1 code, e.g. `en` or `ms` */
+  language: string;
+  /** Size in bytes */
+  fileSize: number;
+  url: string;
+};
+
 export type Products = {
   id?: number;
   name: string;
@@ -5,6 +28,8 @@ export type Products = {
   productCategoryId: number;
   manufacturer: string;
   imageUrls?: string[];
+  specifications?: ProductSpecification[];
+  documents?: ProductDocument[];
   isActive: boolean;
 };
 
@@ -0,0 +1,8 @@
+/** A product waiting in the quote basket */
+export type QuoteItem = {
+  productId: number;
+  name: string;
+  imageUrl?: string;
+  quantity: number;
+  notes: string;
+};
@@ -0,0 +1,24 @@
+export type SearchGroupKey = "products" | "news" | "projects" | "pages";
+
+export type SearchResult = {
+  /** Unique across groups, e.g. `product-12` */
+  key: string;
+  title: string;
+  href: string;
+  /** Plain text excerpt around the first match */
+  snippet?: string;
+};
+
+export type SearchGroup = {
+  key: SearchGroupKey;
+  label: string;
+  results: SearchResult[];
+};
+
+export type SearchResults = {
+  query: string;
+  /** Only groups with results, in display order */
+  groups: SearchGroup[];
+  /** True when one of the sources failed and its group may be missing */
+  degraded: boolean;
+};